@@ -0,0 +1,109 @@
+/**
+ * Contact Proof-of-Work Challenge
+ * Issues stateless HMAC-signed challenges and verifies their solutions.
+ * A challenge token is "<expiresAt>.<difficulty>.<salt>.<signature>", so verification
+ * needs no storage apart from remembering used tokens to prevent replays.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import {
+  ProofOfWorkChallenge,
+  ProofOfWorkSolution,
+  hasLeadingZeroBits,
+  proofInput,
+} from '../../src/scripts/proofOfWork.js';
+import { MemoryRateLimitStore, RateLimitStore } from './rateLimit.js';
+
+export type ChallengeFailure = 'missing' | 'malformed' | 'expired' | 'invalid' | 'reused';
+
+export interface ChallengeConfig {
+  secret: string;
+  difficulty: number;
+  ttlMs: number;
+}
+
+export const DEFAULT_CHALLENGE_DIFFICULTY = 16;
+export const DEFAULT_CHALLENGE_TTL = 30 * 60 * 1000;
+
+export class ChallengeIssuer {
+  private config: ChallengeConfig;
+  private usedTokens: RateLimitStore;
+
+  constructor(config: ChallengeConfig, usedTokens: RateLimitStore = new MemoryRateLimitStore()) {
+    this.config = config;
+    this.usedTokens = usedTokens;
+  }
+
+  /**
+   * Issue a new challenge
+   */
+  issue(now = Date.now()): ProofOfWorkChallenge {
+    const expiresAt = now + this.config.ttlMs;
+    const payload = `${expiresAt}.${this.config.difficulty}.${randomBytes(16).toString('hex')}`;
+
+    return {
+      challenge: `${payload}.${this.sign(payload)}`,
+      difficulty: this.config.difficulty,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Verify a solution, returning the reason it was rejected or null when valid
+   */
+  async verify(solution: unknown, now = Date.now()): Promise<ChallengeFailure | null> {
+    const { challenge, nonce } = (solution || {}) as Partial<ProofOfWorkSolution>;
+    if (typeof challenge !== 'string' || typeof nonce !== 'string') {
+      return 'missing';
+    }
+
+    const parts = challenge.split('.');
+    if (parts.length !== 4 || !/^\d{1,16}$/.test(nonce)) {
+      return 'malformed';
+    }
+
+    const [expiresAt, difficulty, salt, signature] = parts;
+    const expected = Buffer.from(this.sign(`${expiresAt}.${difficulty}.${salt}`));
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      return 'invalid';
+    }
+
+    if (Number(expiresAt) < now) {
+      return 'expired';
+    }
+
+    const hash = createHash('sha256').update(proofInput(challenge, nonce)).digest();
+    if (!hasLeadingZeroBits(hash, Number(difficulty))) {
+      return 'invalid';
+    }
+
+    const use = await this.usedTokens.hit(`challenge:${signature}`, this.config.ttlMs, now);
+    return use.count > 1 ? 'reused' : null;
+  }
+
+  /**
+   * Sign a challenge payload
+   */
+  private sign(payload: string): string {
+    return createHmac('sha256', this.config.secret).update(payload).digest('hex');
+  }
+}
+
+/**
+ * Create the challenge issuer from CONTACT_CHALLENGE_SECRET
+ * Returns null when no secret is configured, which disables the challenge
+ */
+export function createChallengeIssuerFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): ChallengeIssuer | null {
+  if (!env.CONTACT_CHALLENGE_SECRET) {
+    return null;
+  }
+
+  return new ChallengeIssuer({
+    secret: env.CONTACT_CHALLENGE_SECRET,
+    difficulty: Number(env.CONTACT_CHALLENGE_DIFFICULTY) || DEFAULT_CHALLENGE_DIFFICULTY,
+    ttlMs: DEFAULT_CHALLENGE_TTL,
+  });
+}
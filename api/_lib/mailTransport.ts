@@ -0,0 +1,210 @@
+/**
+ * Contact Mail Transports
+ * Delivers validated contact messages via SMTP, a local file outbox or a webhook
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import type { ContactRequest } from '../../src/scripts/types.js';
+import { DEFAULT_CONTACT_TOPIC, getTopicLabel } from '../../src/scripts/contactFormSchema.js';
+
+export interface ContactMessage extends ContactRequest {
+  id: string;
+  receivedAt: string;
+  // Address the message is routed to; transports fall back to their own default
+  recipient?: string;
+}
+
+export interface ContactAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: ContactMessage, attachments?: ContactAttachment[]): Promise<void>;
+}
+
+export interface SmtpTransportConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Reduce an uploaded file name to a safe base name
+ */
+export function safeFilename(filename: string): string {
+  const base = path.basename(filename).replace(/[^\w.-]+/g, '_');
+  return base.replace(/^\.+/, '') || 'attachment';
+}
+
+/**
+ * Format a contact message as a plain-text email body
+ */
+export function formatMessageText(
+  message: ContactMessage,
+  attachments: ContactAttachment[] = []
+): string {
+  return [
+    `Nome: ${message.name}`,
+    `Email: ${message.email}`,
+    `Telefone: ${message.phone || '-'}`,
+    `Assunto: ${getTopicLabel(message.topic || DEFAULT_CONTACT_TOPIC)}`,
+    `Recebido: ${message.receivedAt}`,
+    `Anexos: ${attachments.map(attachment => attachment.filename).join(', ') || '-'}`,
+    '',
+    message.message,
+  ].join('\n');
+}
+
+/**
+ * SMTP transport backed by nodemailer
+ */
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private config: SmtpTransportConfig;
+  private transporter: ReturnType<typeof nodemailer.createTransport>;
+
+  constructor(config: SmtpTransportConfig) {
+    this.config = config;
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+    });
+  }
+
+  async send(message: ContactMessage, attachments: ContactAttachment[] = []): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.config.from,
+      to: message.recipient || this.config.to,
+      replyTo: message.email,
+      subject: `[LOFERSIL] ${getTopicLabel(message.topic || DEFAULT_CONTACT_TOPIC)} - Nova mensagem de ${message.name}`,
+      text: formatMessageText(message, attachments),
+      attachments: attachments.map(attachment => ({
+        filename: safeFilename(attachment.filename),
+        contentType: attachment.contentType,
+        content: attachment.content,
+      })),
+    });
+  }
+}
+
+/**
+ * File-based outbox for local development
+ * Each message is written as a JSON file so the flow can be inspected without a mail server
+ */
+export class FileOutboxTransport implements MailTransport {
+  readonly name = 'file';
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async send(message: ContactMessage, attachments: ContactAttachment[] = []): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Attachments go next to the message as <id>-<index>-<name>
+    const files = await Promise.all(
+      attachments.map(async (attachment, index) => {
+        const filename = `${message.id}-${index + 1}-${safeFilename(attachment.filename)}`;
+        await fs.writeFile(path.join(this.directory, filename), attachment.content);
+        return { filename, contentType: attachment.contentType, size: attachment.content.length };
+      })
+    );
+
+    const filePath = path.join(this.directory, `${message.id}.json`);
+    const record = files.length > 0 ? { ...message, attachments: files } : message;
+    await fs.writeFile(filePath, JSON.stringify(record, null, 2), 'utf8');
+  }
+}
+
+/**
+ * Webhook transport that POSTs the message as JSON
+ */
+export class WebhookTransport implements MailTransport {
+  readonly name = 'webhook';
+  private url: string;
+  private secret?: string;
+
+  constructor(url: string, secret?: string) {
+    this.url = url;
+    this.secret = secret;
+  }
+
+  async send(message: ContactMessage, attachments: ContactAttachment[] = []): Promise<void> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.secret) {
+      headers['Authorization'] = `Bearer ${this.secret}`;
+    }
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        ...message,
+        attachments: attachments.map(attachment => ({
+          filename: safeFilename(attachment.filename),
+          contentType: attachment.contentType,
+          content: attachment.content.toString('base64'),
+        })),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook delivery failed: ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+/**
+ * Resolve the recipient of a topic from CONTACT_EMAIL_<TOPIC>, falling back to CONTACT_EMAIL
+ */
+export function resolveTopicRecipient(
+  topic: string | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): string | undefined {
+  const key = `CONTACT_EMAIL_${(topic || DEFAULT_CONTACT_TOPIC).toUpperCase()}`;
+  return env[key] || env.CONTACT_EMAIL;
+}
+
+/**
+ * Create the transport selected by CONTACT_TRANSPORT (smtp, file or webhook)
+ */
+export function createTransportFromEnv(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const kind = env.CONTACT_TRANSPORT || (env.NODE_ENV === 'production' ? 'smtp' : 'file');
+
+  switch (kind) {
+    case 'smtp':
+      if (!env.SMTP_HOST || !env.CONTACT_EMAIL) {
+        throw new Error('SMTP transport requires SMTP_HOST and CONTACT_EMAIL');
+      }
+      return new SmtpTransport({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || 587,
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+        from: env.SMTP_FROM || env.CONTACT_EMAIL,
+        to: env.CONTACT_EMAIL,
+      });
+    case 'file':
+      return new FileOutboxTransport(env.CONTACT_OUTBOX_DIR || '.outbox');
+    case 'webhook':
+      if (!env.CONTACT_WEBHOOK_URL) {
+        throw new Error('Webhook transport requires CONTACT_WEBHOOK_URL');
+      }
+      return new WebhookTransport(env.CONTACT_WEBHOOK_URL, env.CONTACT_WEBHOOK_SECRET);
+    default:
+      throw new Error(`Unknown contact transport: ${kind}`);
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Contact Rate Limiting
+ * Per-IP and per-email limits plus duplicate detection for contact submissions.
+ * Counters live in a pluggable store; the in-memory store is per function instance,
+ * so production deployments should plug in a shared store (e.g. Redis/KV).
+ */
+
+import { createHash } from 'crypto';
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: number;
+}
+
+export interface RateLimitStore {
+  /**
+   * Count a hit for a key within a fixed window starting at its first hit
+   */
+  hit(key: string, windowMs: number, now: number): Promise<RateLimitHit>;
+
+  /**
+   * Undo one hit for a key within its current window
+   */
+  release(key: string, now: number): Promise<void>;
+}
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitConfig {
+  ip: RateLimitRule;
+  email: RateLimitRule;
+  // How long an identical message is remembered
+  duplicateWindowMs: number;
+}
+
+export interface RateLimitSubject {
+  ip: string;
+  email: string;
+  message: string;
+}
+
+export type RateLimitReason = 'rateLimited' | 'duplicate';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  reason?: RateLimitReason;
+  // Seconds until the client may retry
+  retryAfter?: number;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  ip: { limit: 5, windowMs: 10 * 60 * 1000 },
+  email: { limit: 3, windowMs: 10 * 60 * 1000 },
+  duplicateWindowMs: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * In-memory store, suitable for tests and single-instance deployments
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitHit>();
+
+  async hit(key: string, windowMs: number, now: number): Promise<RateLimitHit> {
+    const current = this.entries.get(key);
+    const entry =
+      current && current.resetAt > now
+        ? { count: current.count + 1, resetAt: current.resetAt }
+        : { count: 1, resetAt: now + windowMs };
+
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async release(key: string, now: number): Promise<void> {
+    const current = this.entries.get(key);
+    if (!current || current.resetAt <= now) {
+      return;
+    }
+
+    if (current.count > 1) {
+      this.entries.set(key, { count: current.count - 1, resetAt: current.resetAt });
+    } else {
+      this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Extract the client IP from Vercel's forwarding headers
+ */
+export function getClientIp(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  return forwarded?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Hash a value so raw addresses and messages are never used as store keys
+ */
+function hashKey(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+export class ContactRateLimiter {
+  private store: RateLimitStore;
+  private config: RateLimitConfig;
+
+  constructor(
+    store: RateLimitStore = new MemoryRateLimitStore(),
+    config: RateLimitConfig = DEFAULT_RATE_LIMITS
+  ) {
+    this.store = store;
+    this.config = config;
+  }
+
+  /**
+   * Count a submission and decide whether it may be delivered
+   */
+  async check(subject: RateLimitSubject, now = Date.now()): Promise<RateLimitResult> {
+    const { ip, email, message } = this.getKeys(subject);
+    const rules: [string, RateLimitRule][] = [
+      [ip, this.config.ip],
+      [email, this.config.email],
+    ];
+
+    for (const [key, rule] of rules) {
+      const hit = await this.store.hit(key, rule.windowMs, now);
+      if (hit.count > rule.limit) {
+        return {
+          allowed: false,
+          reason: 'rateLimited',
+          retryAfter: Math.ceil((hit.resetAt - now) / 1000),
+        };
+      }
+    }
+
+    const duplicate = await this.store.hit(message, this.config.duplicateWindowMs, now);
+    if (duplicate.count > 1) {
+      return { allowed: false, reason: 'duplicate' };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Undo the counting of an allowed submission that could not be delivered, so retrying it
+   * is neither rate limited nor rejected as a duplicate
+   */
+  async release(subject: RateLimitSubject, now = Date.now()): Promise<void> {
+    const { ip, email, message } = this.getKeys(subject);
+    await Promise.all([ip, email, message].map(key => this.store.release(key, now)));
+  }
+
+  /**
+   * Get the store keys counting a submission
+   */
+  private getKeys(subject: RateLimitSubject): { ip: string; email: string; message: string } {
+    const email = subject.email.toLowerCase();
+    return {
+      ip: `ip:${hashKey(subject.ip)}`,
+      email: `email:${hashKey(email)}`,
+      message: `message:${hashKey(`${email}\n${subject.message.trim()}`)}`,
+    };
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * LOFERSIL Landing Page - Contact Challenge API
+ * Vercel function for GET /api/challenge, issuing proof-of-work challenges for the contact form
+ */
+
+import { ChallengeIssuer, createChallengeIssuerFromEnv } from './_lib/challenge.js';
+
+/**
+ * Create a challenge handler; without an issuer the challenge is disabled and clients skip it
+ */
+export function createChallengeHandler(issuer: ChallengeIssuer | null) {
+  return async (): Promise<Response> => {
+    if (!issuer) {
+      return new Response(JSON.stringify({ error: 'Challenge disabled' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json; charset=utf-8' },
+      });
+    }
+
+    return new Response(JSON.stringify(issuer.issue()), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    });
+  };
+}
+
+export const GET = createChallengeHandler(createChallengeIssuerFromEnv());
@@ -0,0 +1,287 @@
+/**
+ * Contact API Tests
+ * Unit tests for the /api/contact handler and transports
+ */
+
+// @vitest-environment node
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createContactHandler } from './contact.js';
+import {
+  ContactMessage,
+  FileOutboxTransport,
+  MailTransport,
+  createTransportFromEnv,
+  resolveTopicRecipient,
+} from './_lib/mailTransport.js';
+import { ContactRateLimiter, MemoryRateLimitStore } from './_lib/rateLimit.js';
+import { ChallengeIssuer } from './_lib/challenge.js';
+import { solveChallenge } from '../src/scripts/proofOfWork.js';
+
+class MemoryTransport implements MailTransport {
+  readonly name = 'memory';
+  sent: ContactMessage[] = [];
+
+  async send(message: ContactMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+const validBody = {
+  name: 'Maria Silva',
+  email: 'maria@example.com',
+  phone: '+351 21 353 1555',
+  message: 'Gostaria de saber o preço da encadernação.',
+};
+
+function postJson(body: unknown): Request {
+  return new Request('http://localhost/api/contact', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+describe('POST /api/contact', () => {
+  let transport: MemoryTransport;
+  let handler: (request: Request) => Promise<Response>;
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+    handler = createContactHandler(() => transport);
+  });
+
+  it('should deliver a valid message and return its id', async () => {
+    const response = await handler(postJson(validBody));
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload.success).toBe(true);
+    expect(payload.data.id).toBeTruthy();
+    expect(payload.timestamp).toBeTruthy();
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0].id).toBe(payload.data.id);
+    expect(transport.sent[0].email).toBe(validBody.email);
+  });
+
+  it('should reject invalid fields with per-field errors', async () => {
+    const response = await handler(postJson({ ...validBody, email: 'not-an-email' }));
+    const payload = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(payload.success).toBe(false);
+    expect(payload.errors.email).toBeTruthy();
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it('should reject malformed JSON', async () => {
+    const response = await handler(postJson('{not json'));
+
+    expect(response.status).toBe(400);
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it('should silently drop submissions with a filled honeypot', async () => {
+    const response = await handler(postJson({ ...validBody, website: 'http://spam.example' }));
+    const payload = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(payload.success).toBe(true);
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it('should route messages by topic', async () => {
+    const routed = createContactHandler(() => transport, {
+      getRecipient: topic =>
+        topic === 'accounting' ? 'contabilidade@example.com' : 'info@example.com',
+    });
+
+    await routed(postJson({ ...validBody, topic: 'accounting' }));
+
+    expect(transport.sent[0].topic).toBe('accounting');
+    expect(transport.sent[0].recipient).toBe('contabilidade@example.com');
+  });
+
+  it('should reject unknown topics', async () => {
+    const response = await handler(postJson({ ...validBody, topic: 'astrology' }));
+    const payload = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(payload.errors.topic).toBeTruthy();
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it('should rate limit repeated submissions from one address', async () => {
+    const limited = createContactHandler(() => transport, {
+      rateLimiter: new ContactRateLimiter(new MemoryRateLimitStore(), {
+        ip: { limit: 2, windowMs: 60000 },
+        email: { limit: 10, windowMs: 60000 },
+        duplicateWindowMs: 60000,
+      }),
+    });
+    const send = (message: string) =>
+      limited(
+        new Request('http://localhost/api/contact', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'x-forwarded-for': '203.0.113.7' },
+          body: JSON.stringify({ ...validBody, message }),
+        })
+      );
+
+    expect((await send('Primeira mensagem de teste')).status).toBe(200);
+    expect((await send('Segunda mensagem de teste')).status).toBe(200);
+    const response = await send('Terceira mensagem de teste');
+
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(transport.sent).toHaveLength(2);
+  });
+
+  it('should reject duplicate messages', async () => {
+    await handler(postJson(validBody));
+    const response = await handler(postJson(validBody));
+
+    expect(response.status).toBe(409);
+    expect(transport.sent).toHaveLength(1);
+  });
+
+  it('should accept multipart submissions with attachments', async () => {
+    const received: string[] = [];
+    const withAttachments = createContactHandler(() => ({
+      name: 'memory',
+      send: async (_message, attachments = []) => {
+        received.push(...attachments.map(attachment => attachment.filename));
+      },
+    }));
+    const form = new FormData();
+    Object.entries(validBody).forEach(([name, value]) => form.append(name, value));
+    form.append(
+      'attachments',
+      new File(['%PDF-1.4'], 'orcamento.pdf', { type: 'application/pdf' })
+    );
+
+    const response = await withAttachments(
+      new Request('http://localhost/api/contact', { method: 'POST', body: form })
+    );
+
+    expect(response.status).toBe(200);
+    expect(received).toEqual(['orcamento.pdf']);
+  });
+
+  it('should reject attachments of unsupported types', async () => {
+    const form = new FormData();
+    Object.entries(validBody).forEach(([name, value]) => form.append(name, value));
+    form.append('attachments', new File(['MZ'], 'virus.exe', { type: 'application/x-msdownload' }));
+
+    const response = await handler(
+      new Request('http://localhost/api/contact', { method: 'POST', body: form })
+    );
+    const payload = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(payload.errors.attachments).toBeTruthy();
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it('should report transport failures', async () => {
+    const failing = createContactHandler(() => ({
+      name: 'failing',
+      send: () => Promise.reject(new Error('SMTP down')),
+    }));
+
+    const response = await failing(postJson(validBody));
+
+    expect(response.status).toBe(502);
+    expect((await response.json()).success).toBe(false);
+  });
+
+  it('should accept a retry of a message that could not be delivered', async () => {
+    let available = false;
+    const flaky = createContactHandler(() => ({
+      name: 'flaky',
+      send: async message => {
+        if (!available) throw new Error('SMTP down');
+        transport.sent.push(message);
+      },
+    }));
+
+    expect((await flaky(postJson(validBody))).status).toBe(502);
+    available = true;
+
+    expect((await flaky(postJson(validBody))).status).toBe(200);
+    expect(transport.sent).toHaveLength(1);
+  });
+});
+
+describe('Mail transports', () => {
+  it('should write messages to the file outbox', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'lofersil-outbox-'));
+    const transport = new FileOutboxTransport(directory);
+
+    await transport.send({ ...validBody, id: 'abc', receivedAt: '2024-01-01T00:00:00.000Z' });
+
+    const written = JSON.parse(await fs.readFile(path.join(directory, 'abc.json'), 'utf8'));
+    expect(written.name).toBe(validBody.name);
+
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should select the transport from the environment', () => {
+    expect(createTransportFromEnv({ CONTACT_TRANSPORT: 'file' }).name).toBe('file');
+    expect(
+      createTransportFromEnv({ CONTACT_TRANSPORT: 'webhook', CONTACT_WEBHOOK_URL: 'https://x' })
+        .name
+    ).toBe('webhook');
+    expect(() => createTransportFromEnv({ CONTACT_TRANSPORT: 'webhook' })).toThrow();
+    expect(() => createTransportFromEnv({ CONTACT_TRANSPORT: 'carrier-pigeon' })).toThrow();
+  });
+
+  it('should resolve topic recipients from the environment', () => {
+    const env = { CONTACT_EMAIL: 'info@x', CONTACT_EMAIL_SHIPPING: 'dhl@x' };
+
+    expect(resolveTopicRecipient('shipping', env)).toBe('dhl@x');
+    expect(resolveTopicRecipient('binding', env)).toBe('info@x');
+    expect(resolveTopicRecipient(undefined, env)).toBe('info@x');
+  });
+});
+
+describe('Proof-of-work challenge', () => {
+  const issuer = () => new ChallengeIssuer({ secret: 'test-secret', difficulty: 4, ttlMs: 60000 });
+
+  it('should accept a solved challenge only once', async () => {
+    const challenges = issuer();
+    const solution = await solveChallenge(challenges.issue());
+
+    expect(await challenges.verify(solution)).toBeNull();
+    expect(await challenges.verify(solution)).toBe('reused');
+  });
+
+  it('should reject tampered and expired challenges', async () => {
+    const challenges = issuer();
+    const challenge = challenges.issue(Date.now() - 120000);
+    const solution = await solveChallenge(challenge);
+
+    expect(await challenges.verify(solution)).toBe('expired');
+    expect(await challenges.verify({ ...solution, challenge: `9${solution.challenge}` })).toBe(
+      'invalid'
+    );
+    expect(await challenges.verify(undefined)).toBe('missing');
+  });
+
+  it('should require a proof when the challenge is enabled', async () => {
+    const transport = new MemoryTransport();
+    const challenges = issuer();
+    const handler = createContactHandler(() => transport, { challenge: challenges });
+
+    const rejected = await handler(postJson(validBody));
+    expect(rejected.status).toBe(403);
+
+    const proof = await solveChallenge(challenges.issue());
+    const accepted = await handler(postJson({ ...validBody, proof }));
+    expect(accepted.status).toBe(200);
+    expect(transport.sent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * LOFERSIL Landing Page - Contact API
+ * Vercel function for POST /api/contact, validating and delivering contact messages
+ */
+
+import { randomUUID } from 'crypto';
+import { validateAttachments, validateContactForm } from '../src/scripts/validation.js';
+import { ATTACHMENT_RULES, CONTACT_FORM_SCHEMA } from '../src/scripts/contactFormSchema.js';
+import type { ContactRequest, ContactResponse } from '../src/scripts/types.js';
+import {
+  ContactAttachment,
+  ContactMessage,
+  MailTransport,
+  createTransportFromEnv,
+  resolveTopicRecipient,
+} from './_lib/mailTransport.js';
+import { ContactRateLimiter, getClientIp } from './_lib/rateLimit.js';
+import { ChallengeIssuer, createChallengeIssuerFromEnv } from './_lib/challenge.js';
+
+export interface ContactHandlerOptions {
+  // Resolve the recipient of a topic; defaults to CONTACT_EMAIL_<TOPIC> / CONTACT_EMAIL
+  getRecipient?: (topic?: string) => string | undefined;
+  rateLimiter?: ContactRateLimiter;
+  // Proof-of-work verification; disabled when null
+  challenge?: ChallengeIssuer | null;
+}
+
+/**
+ * Build a JSON response in the ContactResponse shape
+ */
+function jsonResponse(
+  status: number,
+  body: Omit<ContactResponse, 'timestamp'>,
+  headers: Record<string, string> = {}
+): Response {
+  const payload: ContactResponse = { ...body, timestamp: new Date().toISOString() };
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { 'Content-Type': 'application/json; charset=utf-8', ...headers },
+  });
+}
+
+interface ParsedBody {
+  fields: Record<string, unknown>;
+  files: File[];
+}
+
+/**
+ * Read a JSON or multipart body; multipart bodies carry attachments and a JSON-encoded proof
+ * Returns null when the body cannot be parsed
+ */
+async function readBody(request: Request): Promise<ParsedBody | null> {
+  const contentType = request.headers.get('content-type') || '';
+
+  try {
+    if (contentType.includes('multipart/form-data')) {
+      const form = await request.formData();
+      const fields: Record<string, unknown> = {};
+      const files: File[] = [];
+
+      form.forEach((value, key) => {
+        if (typeof value === 'string') {
+          fields[key] = value;
+        } else if (key === ATTACHMENT_RULES.name) {
+          files.push(value);
+        }
+      });
+      if (typeof fields.proof === 'string') {
+        fields.proof = JSON.parse(fields.proof);
+      }
+
+      return { fields, files };
+    }
+
+    const fields = await request.json();
+    return fields && typeof fields === 'object' ? { fields, files: [] } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read an uploaded file into a transport attachment
+ */
+async function toAttachment(file: File): Promise<ContactAttachment> {
+  return {
+    filename: file.name,
+    contentType: file.type,
+    content: Buffer.from(await file.arrayBuffer()),
+  };
+}
+
+/**
+ * Pick the schema fields out of an untrusted payload
+ */
+function toContactRequest(body: Record<string, unknown>): ContactRequest {
+  const request = {} as ContactRequest;
+
+  CONTACT_FORM_SCHEMA.forEach(field => {
+    const raw = body[field.name];
+    const value = typeof raw === 'string' ? raw.trim() : '';
+    // Empty optional fields are left out, as the client does
+    request[field.name] = value || field.required ? value : undefined;
+  });
+
+  return request;
+}
+
+/**
+ * Create a contact handler bound to a transport factory
+ */
+export function createContactHandler(
+  getTransport: () => MailTransport,
+  options: ContactHandlerOptions = {}
+) {
+  const getRecipient = options.getRecipient || (topic => resolveTopicRecipient(topic));
+  const rateLimiter = options.rateLimiter || new ContactRateLimiter();
+  const challenge = options.challenge || null;
+
+  return async (request: Request): Promise<Response> => {
+    const parsed = await readBody(request);
+    if (!parsed) {
+      return jsonResponse(400, { success: false, data: { id: '' }, error: 'Invalid request body' });
+    }
+    const { fields: body, files } = parsed;
+
+    const id = randomUUID();
+
+    // Honeypot filled in: pretend success so bots get no signal
+    if (typeof body.website === 'string' && body.website.trim() !== '') {
+      return jsonResponse(200, { success: true, data: { id } });
+    }
+
+    if (challenge) {
+      const failure = await challenge.verify(body.proof);
+      if (failure) {
+        return jsonResponse(403, {
+          success: false,
+          data: { id: '' },
+          error: `Proof of work ${failure}`,
+        });
+      }
+    }
+
+    const contactRequest = toContactRequest(body);
+    const validation = validateContactForm(contactRequest);
+    const attachmentValidation = validateAttachments(files);
+    if (!validation.isValid || !attachmentValidation.isValid) {
+      return jsonResponse(400, {
+        success: false,
+        data: { id: '' },
+        error: 'Validation failed',
+        errors: attachmentValidation.isValid
+          ? validation.errors
+          : { ...validation.errors, [ATTACHMENT_RULES.name]: attachmentValidation.error },
+      });
+    }
+
+    const subject = {
+      ip: getClientIp(request),
+      email: contactRequest.email,
+      message: contactRequest.message,
+    };
+    const limit = await rateLimiter.check(subject);
+    if (limit.reason === 'rateLimited') {
+      return jsonResponse(
+        429,
+        { success: false, data: { id: '' }, error: 'Too many submissions' },
+        { 'Retry-After': String(limit.retryAfter) }
+      );
+    }
+    if (limit.reason === 'duplicate') {
+      return jsonResponse(409, { success: false, data: { id: '' }, error: 'Duplicate submission' });
+    }
+
+    const message: ContactMessage = {
+      ...contactRequest,
+      id,
+      receivedAt: new Date().toISOString(),
+      recipient: getRecipient(contactRequest.topic),
+    };
+
+    try {
+      const attachments = await Promise.all(files.map(toAttachment));
+      await getTransport().send(message, attachments);
+    } catch (error) {
+      console.error('Contact message delivery failed:', error);
+      // Undelivered messages must not count against the sender's retries or outbox replays
+      await rateLimiter.release(subject);
+      return jsonResponse(502, {
+        success: false,
+        data: { id: '' },
+        error: 'Failed to deliver message',
+      });
+    }
+
+    return jsonResponse(200, { success: true, data: { id } });
+  };
+}
+
+export const POST = createContactHandler(() => createTransportFromEnv(), {
+  challenge: createChallengeIssuerFromEnv(),
+});
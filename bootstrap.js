@@ -0,0 +1,159 @@
+#!/usr/bin/env node
+
+/**
+ * LOFERSIL Theme and Language Bootstrap
+ * Injects the inline script that sets data-theme and the html lang attribute before first
+ * paint (src/scripts/bootstrapScript.ts) into the built HTML pages. The script-src directive
+ * in vercel.json must allow it by its CSP hash; the build fails when the committed hash is
+ * stale rather than rewriting tracked config.
+ *
+ * Needs the compiled scripts in dist/scripts.
+ *
+ * Usage: node bootstrap.js [--check | --update]
+ *   --check   only verify that vercel.json contains the current hash
+ *   --update  write the current hash into vercel.json
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const SCRIPT_ID = 'theme-language-bootstrap';
+const HTML_DIRS = ['', 'en'];
+
+/**
+ * Get the CSP source expression allowing an inline script, e.g. 'sha256-...'
+ */
+export function hashScript(script) {
+  return `'sha256-${crypto.createHash('sha256').update(script, 'utf8').digest('base64')}'`;
+}
+
+/**
+ * Insert the script into a page, replacing a previously injected copy
+ * It goes right after the theme-color meta tag so it can update it, or at the end of <head>
+ */
+export function injectBootstrapScript(html, script) {
+  const tag = `<script id="${SCRIPT_ID}">${script}</script>`;
+  const withoutPrevious = html.replace(
+    new RegExp(`\\s*<script id="${SCRIPT_ID}">[\\s\\S]*?</script>`),
+    ''
+  );
+
+  const themeColor = /<meta\b[^>]*name="theme-color"[^>]*>/.exec(withoutPrevious);
+  if (themeColor) {
+    const end = themeColor.index + themeColor[0].length;
+    return `${withoutPrevious.slice(0, end)}\n    ${tag}${withoutPrevious.slice(end)}`;
+  }
+  return withoutPrevious.replace('</head>', `  ${tag}\n  </head>`);
+}
+
+/**
+ * Replace the inline script hashes in a Content-Security-Policy value
+ */
+export function setScriptHash(policy, hash) {
+  return policy.replace(/script-src([^;]*)/, (match, sources) => {
+    const kept = sources
+      .trim()
+      .split(/\s+/)
+      .filter(source => source && !source.startsWith("'sha256-"));
+    return `script-src ${[kept[0], hash, ...kept.slice(1)].filter(Boolean).join(' ')}`;
+  });
+}
+
+/**
+ * Update the CSP header in vercel.json, returning whether it changed
+ */
+export function updateVercelConfig(file, hash, { write = true } = {}) {
+  const config = JSON.parse(fs.readFileSync(file, 'utf8'));
+  let changed = false;
+
+  config.headers?.forEach(({ headers }) => {
+    headers.forEach(header => {
+      if (header.key !== 'Content-Security-Policy') return;
+      const value = setScriptHash(header.value, hash);
+      changed = changed || value !== header.value;
+      header.value = value;
+    });
+  });
+
+  if (changed && write) {
+    fs.writeFileSync(file, `${JSON.stringify(config, null, 2)}\n`);
+  }
+  return changed;
+}
+
+/**
+ * Throw when vercel.json does not allow the script, e.g. after the themes changed
+ */
+export function checkVercelConfig(file, hash) {
+  if (updateVercelConfig(file, hash, { write: false })) {
+    throw new Error(
+      `vercel.json does not allow the bootstrap script (${hash}); ` +
+        'run `node bootstrap.js --update` and commit vercel.json'
+    );
+  }
+}
+
+/**
+ * Generate the script from the compiled registries
+ */
+export async function loadBootstrapScript(outDir = path.join(__dirname, 'dist')) {
+  const { createBootstrapScript } = await import(
+    pathToFileURL(path.join(outDir, 'scripts/bootstrapScript.js')).href
+  );
+  return createBootstrapScript();
+}
+
+/**
+ * Inject the script into every built page once vercel.json is known to allow it
+ */
+export async function bootstrapPages({
+  rootDir = __dirname,
+  outDir = path.join(__dirname, 'dist'),
+} = {}) {
+  const script = await loadBootstrapScript(outDir);
+  const hash = hashScript(script);
+  checkVercelConfig(path.join(rootDir, 'vercel.json'), hash);
+
+  HTML_DIRS.forEach(dir => {
+    const fullDir = path.join(outDir, dir);
+    if (!fs.existsSync(fullDir)) return;
+    fs.readdirSync(fullDir)
+      .filter(file => file.endsWith('.html'))
+      .forEach(file => {
+        const page = path.join(fullDir, file);
+        fs.writeFileSync(page, injectBootstrapScript(fs.readFileSync(page, 'utf8'), script));
+        console.log(`✅ Bootstrapped ${path.relative(outDir, page)}`);
+      });
+  });
+  return hash;
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === __filename) {
+  const vercelConfig = path.join(__dirname, 'vercel.json');
+  let run;
+  if (process.argv.includes('--check')) {
+    run = loadBootstrapScript().then(script => {
+      checkVercelConfig(vercelConfig, hashScript(script));
+      console.log('✅ vercel.json allows the bootstrap script');
+    });
+  } else if (process.argv.includes('--update')) {
+    run = loadBootstrapScript().then(script => {
+      const hash = hashScript(script);
+      if (updateVercelConfig(vercelConfig, hash)) {
+        console.log(`🔐 Updated the script-src hash in vercel.json to ${hash}`);
+      }
+    });
+  } else {
+    run = bootstrapPages();
+  }
+
+  run.catch(error => {
+    console.error('❌ Bootstrap generation failed:', error);
+    process.exit(1);
+  });
+}
@@ -10,6 +10,8 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import sharp from 'sharp';
+import { bootstrapPages } from './bootstrap.js';
+import { prerenderPages } from './prerender.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -75,10 +77,18 @@ const isProduction =
     process.exit(1);
   }
 
+  // Pre-render the landing page for every language
+  console.log('🌐 Pre-rendering translated pages...');
+  try {
+    await prerenderPages();
+  } catch (error) {
+    console.error('❌ Pre-rendering failed:', error);
+    process.exit(1);
+  }
+
   // Copy HTML files to dist
   console.log('📄 Copying HTML files...');
-  fs.copyFileSync('./index.html', './dist/index.html');
-  
+
   // Copy additional HTML pages
   if (fs.existsSync('./privacy.html')) {
     fs.copyFileSync('./privacy.html', './dist/privacy.html');
@@ -95,6 +105,15 @@ const isProduction =
     fs.copyFileSync('./terms.html', './dist/terms.html');
   }
 
+  // Inline the theme and language bootstrap; fails when vercel.json has a stale CSP hash
+  console.log('🎨 Injecting theme and language bootstrap...');
+  try {
+    await bootstrapPages();
+  } catch (error) {
+    console.error('❌ Bootstrap generation failed:', error);
+    process.exit(1);
+  }
+
   // Process CSS with PostCSS
   console.log('🎨 Processing CSS...');
   try {
@@ -283,15 +302,17 @@ Sitemap: ${baseUrl}/sitemap.xml`;
   // Update HTML file to use minified assets in production
   if (isProduction) {
     console.log('🔄 Updating HTML for production...');
-    let html = fs.readFileSync('./dist/index.html', 'utf8');
+    ['./dist/index.html', './dist/en/index.html'].filter(fs.existsSync).forEach(file => {
+      let html = fs.readFileSync(file, 'utf8');
 
-    // Update CSS links (both preload and stylesheet)
-    html = html.replace(/main\.css/g, 'main.min.css');
+      // Update CSS links (both preload and stylesheet)
+      html = html.replace(/main\.css/g, 'main.min.css');
 
-    // Update JS script
-    html = html.replace(/scripts\/index\.js/g, 'scripts/index.min.js');
+      // Update JS script
+      html = html.replace(/scripts\/index\.js/g, 'scripts/index.min.js');
 
-    fs.writeFileSync('./dist/index.html', html);
+      fs.writeFileSync(file, html);
+    });
   }
 
   console.log('📊 Build summary:');
@@ -0,0 +1,320 @@
+#!/usr/bin/env node
+
+/**
+ * LOFERSIL Locale Consistency Checker
+ * Compares every src/locales/*.json file against the default locale, validates that ICU
+ * placeholders match across languages, verifies the public/ copies are in sync and scans
+ * the HTML pages for data-translate keys missing from the locale files.
+ *
+ * Usage: node check-locales.js [--sync]
+ *   --sync  overwrite the public/ copies with src/locales before checking
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DEFAULT_LOCALE = 'pt';
+const LOCALES_DIR = 'src/locales';
+// Older copies of the locale files that are still deployed from public/
+const LOCALE_COPY_DIRS = ['public', 'public/locales'];
+const HTML_FILES = ['index.html', 'privacy.html', 'terms.html'];
+const HTML_DIRS = ['en'];
+
+/**
+ * Flatten a locale into a map of dotted key paths to leaf values
+ */
+export function flattenLocale(locale, prefix = '', result = new Map()) {
+  Object.entries(locale).forEach(([key, value]) => {
+    const keyPath = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      flattenLocale(value, keyPath, result);
+    } else {
+      result.set(keyPath, value);
+    }
+  });
+  return result;
+}
+
+/**
+ * Extract the ICU arguments of a message, e.g. ['count:plural', 'name']
+ * Throws when the message is not valid ICU syntax
+ */
+export function extractPlaceholders(message) {
+  const placeholders = new Set();
+  let position = 0;
+
+  const skipWhitespace = () => {
+    while (/\s/.test(message[position] || '')) position++;
+  };
+  const readToken = () => {
+    skipWhitespace();
+    const token = (/^[^\s{},]+/.exec(message.slice(position)) || [''])[0];
+    position += token.length;
+    skipWhitespace();
+    return token;
+  };
+  const expect = char => {
+    skipWhitespace();
+    if (message[position] !== char) {
+      throw new Error(`expected "${char}" at position ${position}`);
+    }
+    position++;
+  };
+
+  const parseMessage = () => {
+    while (position < message.length && message[position] !== '}') {
+      const char = message[position];
+      const next = message[position + 1];
+      if (char === "'" && next === "'") {
+        position += 2;
+      } else if (char === "'" && '{}#'.includes(next)) {
+        const closing = message.indexOf("'", position + 1);
+        position = closing === -1 ? message.length : closing + 1;
+      } else if (char === '{') {
+        parseArgument();
+      } else {
+        position++;
+      }
+    }
+  };
+
+  const parseArgument = () => {
+    expect('{');
+    const name = readToken();
+    if (!name) throw new Error(`missing argument name at position ${position}`);
+    if (message[position] === '}') {
+      position++;
+      placeholders.add(name);
+      return;
+    }
+
+    expect(',');
+    const type = readToken();
+    placeholders.add(`${name}:${type}`);
+    if (type !== 'plural' && type !== 'select') {
+      expect('}');
+      return;
+    }
+
+    expect(',');
+    const selectors = [];
+    while (message[position] !== '}') {
+      const selector = readToken();
+      if (!selector) throw new Error(`missing ${type} selector at position ${position}`);
+      selectors.push(selector);
+      expect('{');
+      parseMessage();
+      expect('}');
+      skipWhitespace();
+    }
+    expect('}');
+    if (!selectors.includes('other')) {
+      throw new Error(`${type} argument "${name}" has no "other" branch`);
+    }
+  };
+
+  parseMessage();
+  if (position < message.length) {
+    throw new Error(`unexpected "}" at position ${position}`);
+  }
+  return [...placeholders].sort();
+}
+
+/**
+ * Compare a locale against the reference locale
+ * Partial locales (regional variants such as en-GB) may omit keys and rely on fallbacks
+ */
+export function compareLocales(reference, locale, { name, partial = false }) {
+  const errors = [];
+  const referenceKeys = flattenLocale(reference);
+  const localeKeys = flattenLocale(locale);
+
+  referenceKeys.forEach((referenceValue, key) => {
+    if (!localeKeys.has(key)) {
+      if (!partial) errors.push(`${name}: missing key "${key}"`);
+      return;
+    }
+
+    const value = localeKeys.get(key);
+    if (typeof value !== typeof referenceValue) {
+      errors.push(`${name}: "${key}" is a ${typeof value}, expected ${typeof referenceValue}`);
+      return;
+    }
+    if (typeof value !== 'string') return;
+
+    try {
+      const expected = extractPlaceholders(referenceValue).join(', ');
+      const actual = extractPlaceholders(value).join(', ');
+      if (expected !== actual) {
+        errors.push(
+          `${name}: "${key}" has placeholders [${actual}], expected [${expected}] as in ${DEFAULT_LOCALE}`
+        );
+      }
+    } catch {
+      // Syntax errors are reported once per file by checkLocaleFile
+    }
+  });
+
+  localeKeys.forEach((value, key) => {
+    if (!referenceKeys.has(key)) {
+      errors.push(`${name}: extra key "${key}" not in ${DEFAULT_LOCALE}`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Check a single locale for empty values and invalid ICU messages
+ */
+export function checkLocaleFile(locale, name) {
+  const errors = [];
+
+  flattenLocale(locale).forEach((value, key) => {
+    if (typeof value !== 'string') {
+      errors.push(`${name}: "${key}" must be a string`);
+    } else if (value.trim() === '') {
+      errors.push(`${name}: empty key "${key}"`);
+    } else {
+      try {
+        extractPlaceholders(value);
+      } catch (error) {
+        errors.push(`${name}: "${key}" is not a valid ICU message (${error.message})`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Collect the translation keys an HTML page references
+ */
+export function extractHtmlKeys(html) {
+  const keys = new Set();
+
+  for (const match of html.matchAll(/data-translate(?:-html)?="([^"]+)"/g)) {
+    keys.add(match[1]);
+  }
+  for (const match of html.matchAll(/data-translate-attr="([^"]+)"/g)) {
+    match[1].split(';').forEach(directive => {
+      const key = directive.split(':')[1]?.trim();
+      if (key) keys.add(key);
+    });
+  }
+
+  return [...keys];
+}
+
+/**
+ * Read and parse a JSON file
+ */
+function readJson(file) {
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * Get the locale files in src/locales keyed by language code
+ */
+function loadLocales(rootDir) {
+  const localesDir = path.join(rootDir, LOCALES_DIR);
+  return Object.fromEntries(
+    fs
+      .readdirSync(localesDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => [path.basename(file, '.json'), readJson(path.join(localesDir, file))])
+  );
+}
+
+/**
+ * Get the HTML pages that may contain data-translate attributes
+ */
+function getHtmlFiles(rootDir) {
+  const nested = HTML_DIRS.flatMap(dir => {
+    const fullDir = path.join(rootDir, dir);
+    if (!fs.existsSync(fullDir)) return [];
+    return fs
+      .readdirSync(fullDir)
+      .filter(file => file.endsWith('.html'))
+      .map(file => path.join(dir, file));
+  });
+  return [...HTML_FILES, ...nested].filter(file => fs.existsSync(path.join(rootDir, file)));
+}
+
+/**
+ * Overwrite the public/ locale copies with the src/locales files
+ */
+export function syncLocaleCopies(rootDir = __dirname) {
+  const locales = loadLocales(rootDir);
+  LOCALE_COPY_DIRS.forEach(dir => {
+    Object.entries(locales).forEach(([code, locale]) => {
+      const copy = path.join(rootDir, dir, `${code}.json`);
+      if (fs.existsSync(copy)) {
+        fs.writeFileSync(copy, `${JSON.stringify(locale, null, 2)}\n`);
+      }
+    });
+  });
+}
+
+/**
+ * Run every check and return the problems found
+ */
+export function checkLocales(rootDir = __dirname) {
+  const locales = loadLocales(rootDir);
+  const reference = locales[DEFAULT_LOCALE];
+  if (!reference) {
+    return { errors: [`${LOCALES_DIR}/${DEFAULT_LOCALE}.json not found`] };
+  }
+
+  const errors = [];
+  Object.entries(locales).forEach(([code, locale]) => {
+    const name = `${LOCALES_DIR}/${code}.json`;
+    errors.push(...checkLocaleFile(locale, name));
+    if (code !== DEFAULT_LOCALE) {
+      errors.push(...compareLocales(reference, locale, { name, partial: code.includes('-') }));
+    }
+  });
+
+  LOCALE_COPY_DIRS.forEach(dir => {
+    Object.entries(locales).forEach(([code, locale]) => {
+      const copy = path.join(dir, `${code}.json`);
+      const fullPath = path.join(rootDir, copy);
+      if (!fs.existsSync(fullPath)) return;
+
+      if (JSON.stringify(readJson(fullPath)) !== JSON.stringify(locale)) {
+        errors.push(`${copy}: out of sync with ${LOCALES_DIR}/${code}.json (run with --sync)`);
+      }
+    });
+  });
+
+  const referenceKeys = flattenLocale(reference);
+  getHtmlFiles(rootDir).forEach(file => {
+    const html = fs.readFileSync(path.join(rootDir, file), 'utf8');
+    extractHtmlKeys(html).forEach(key => {
+      if (typeof referenceKeys.get(key) !== 'string') {
+        errors.push(`${file}: unknown translation key "${key}"`);
+      }
+    });
+  });
+
+  return { errors };
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === __filename) {
+  if (process.argv.includes('--sync')) {
+    syncLocaleCopies();
+    console.log('🔄 Synced public/ locale copies');
+  }
+
+  const { errors } = checkLocales();
+  if (errors.length > 0) {
+    console.error(`❌ Found ${errors.length} locale problem(s):`);
+    errors.forEach(error => console.error(`  - ${error}`));
+    process.exit(1);
+  }
+  console.log('✅ Locales are consistent');
+}
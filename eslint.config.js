@@ -34,10 +34,15 @@ export default [
         HTMLInputElement: "readonly",
         HTMLTextAreaElement: "readonly",
         Node: "readonly",
+        Element: "readonly",
         event: "readonly",
         ErrorEvent: "readonly",
         PromiseRejectionEvent: "readonly",
         URL: "readonly",
+        CustomEvent: "readonly",
+        StorageEvent: "readonly",
+        crypto: "readonly",
+        TextEncoder: "readonly",
         OnErrorEventHandler: "readonly",
         // Node.js globals (for test files)
         global: "readonly",
@@ -0,0 +1,319 @@
+#!/usr/bin/env node
+
+/**
+ * LOFERSIL Static Pre-rendering
+ * Renders one HTML page per registered language from the index.html template using the
+ * locale JSON files: translated text, attributes, meta tags, the lang attribute, canonical
+ * link and hreflang tags. Pages keep their data-translate attributes so TranslationManager
+ * can still switch languages in place.
+ *
+ * Needs the compiled scripts (language registry and message formatter) in dist/scripts.
+ *
+ * Usage: node prerender.js
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DEFAULT_BASE_URL = 'https://lofersil.vercel.app';
+
+// Meta tags filled from the locale's meta section, mirroring TranslationManager
+const META_TAGS = {
+  description: 'description',
+  ogTitle: 'og:title',
+  ogDescription: 'og:description',
+  twitterTitle: 'twitter:title',
+  twitterDescription: 'twitter:description',
+};
+
+// Elements whose content is replaced by a translation
+const TRANSLATED_ELEMENT = /<([a-zA-Z][\w-]*)\b[^>]*\sdata-translate(-html)?="([^"]+)"[^>]*>/g;
+
+// Elements without content, e.g. <meta data-translate> which only has its content attribute set
+const VOID_ELEMENTS = new Set(['area', 'br', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'wbr']);
+
+// JSON-LD blocks, localized from the locale's structuredData section
+const STRUCTURED_DATA =
+  /(<script\b[^>]*type="application\/ld\+json"[^>]*>)(\s*)([\s\S]*?)(\s*<\/script>)/g;
+
+// Attributes holding URLs that must be adjusted for pages served from a subdirectory
+const URL_ATTRIBUTES = /\s(src|href|data-src)="([^"]*)"/g;
+
+/**
+ * Escape text for use as HTML content
+ */
+export function escapeHtml(text) {
+  return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Escape text for use in a double-quoted attribute
+ */
+export function escapeAttribute(text) {
+  return escapeHtml(text).replace(/"/g, '&quot;');
+}
+
+/**
+ * Get a nested locale value such as 'nav.home'
+ */
+function getNested(locale, key) {
+  return key.split('.').reduce((current, part) => {
+    return current && typeof current === 'object' ? current[part] : undefined;
+  }, locale);
+}
+
+/**
+ * Read the value of an attribute from an opening tag
+ */
+function getAttribute(tag, name) {
+  const match = new RegExp(`\\s${name}=(?:"([^"]*)"|'([^']*)')`).exec(tag);
+  return match ? (match[1] ?? match[2]).replace(/&quot;/g, '"') : null;
+}
+
+/**
+ * Set an attribute on an opening tag, replacing any existing value
+ */
+function setAttribute(tag, name, value) {
+  const attribute = `${name}="${escapeAttribute(value)}"`;
+  const existing = new RegExp(`\\s${name}="[^"]*"`);
+  if (existing.test(tag)) {
+    return tag.replace(existing, ` ${attribute}`);
+  }
+  return tag.replace(/\s*(\/?)>$/, ` ${attribute}$1>`);
+}
+
+/**
+ * Find the closing tag of an element whose content starts at `from`, skipping nested
+ * elements with the same name; returns its index, or -1 when the element is never closed
+ */
+function findClosingTag(html, tagName, from) {
+  const tags = new RegExp(`<(/?)${tagName}(?=[\\s/>])[^>]*>`, 'gi');
+  tags.lastIndex = from;
+  let depth = 1;
+  for (let match = tags.exec(html); match; match = tags.exec(html)) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return match.index;
+  }
+  return -1;
+}
+
+/**
+ * Merge locale strings into a JSON-LD node; nested objects keyed by index address array items
+ */
+function mergeStructuredData(node, strings) {
+  Object.entries(strings).forEach(([key, value]) => {
+    if (value && typeof value === 'object') {
+      if (node[key] && typeof node[key] === 'object') mergeStructuredData(node[key], value);
+    } else if (key in node) {
+      node[key] = value;
+    }
+  });
+}
+
+/**
+ * Localize parsed JSON-LD for one page: URLs of the template's page point at the language's
+ * page, string inLanguage values become the language code and each node with an @id gets
+ * the strings listed under its fragment (e.g. "faq" for .../#faq)
+ */
+export function localizeStructuredData(data, { siteUrl, pageUrl, languageCode, strings = {} }) {
+  const localize = value => {
+    if (typeof value === 'string') {
+      return value === `${siteUrl}/` || value.startsWith(`${siteUrl}/#`)
+        ? `${pageUrl}${value.slice(siteUrl.length + 1)}`
+        : value;
+    }
+    if (Array.isArray(value)) return value.map(localize);
+    if (!value || typeof value !== 'object') return value;
+
+    const node = Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, localize(item)])
+    );
+    if (typeof node.inLanguage === 'string') node.inLanguage = languageCode;
+    const fragment = typeof value['@id'] === 'string' ? value['@id'].split('#')[1] : '';
+    if (fragment && strings[fragment]) mergeStructuredData(node, strings[fragment]);
+    return node;
+  };
+  return localize(data);
+}
+
+/**
+ * Render the template for one language
+ */
+export function renderPage(template, options) {
+  const { language, languages, locales, formatMessage, baseUrl, params = {} } = options;
+  const defaultLanguage = languages[0];
+  const chain = [locales[language.code], locales[defaultLanguage.code]].filter(Boolean);
+
+  const translate = (key, tag) => {
+    const message = chain.map(locale => getNested(locale, key)).find(Boolean);
+    if (typeof message !== 'string') {
+      console.warn(`⚠️ Missing ${language.code} translation: ${key}`);
+      return null;
+    }
+    const elementParams = JSON.parse(getAttribute(tag, 'data-translate-params') || '{}');
+    return formatMessage(message, { ...params, ...elementParams }, language.locale);
+  };
+
+  let html = template.replace(
+    /<html\b[^>]*>/,
+    tag => `${setAttribute(tag, 'lang', language.locale).replace(/>$/, '')} data-prerendered>`
+  );
+
+  // Text and markup content
+  const elements = new RegExp(TRANSLATED_ELEMENT);
+  let rendered = '';
+  let position = 0;
+  for (let match = elements.exec(html); match; match = elements.exec(html)) {
+    const [openTag, tagName, htmlMode, key] = match;
+    if (VOID_ELEMENTS.has(tagName.toLowerCase())) continue;
+
+    const contentStart = match.index + openTag.length;
+    const contentEnd = findClosingTag(html, tagName, contentStart);
+    if (contentEnd === -1) {
+      throw new Error(`<${tagName}> with translation key "${key}" is never closed`);
+    }
+    const translation = translate(key, openTag);
+    if (translation === null) continue;
+
+    // Locale files are trusted at build time; runtime HTML is sanitized by DOMPurify
+    rendered += html.slice(position, contentStart);
+    rendered += htmlMode ? translation : escapeHtml(translation);
+    position = contentEnd;
+    elements.lastIndex = contentEnd;
+  }
+  html = rendered + html.slice(position);
+
+  // Attribute directives and translated meta elements
+  html = html.replace(/<[a-zA-Z][\w-]*\b[^>]*\sdata-translate(?:-attr)?="[^"]*"[^>]*>/g, tag => {
+    let result = tag;
+    const metaKey = tag.startsWith('<meta') ? getAttribute(tag, 'data-translate') : null;
+    if (metaKey) {
+      const translation = translate(metaKey, tag);
+      if (translation !== null) result = setAttribute(result, 'content', translation);
+    }
+
+    (getAttribute(tag, 'data-translate-attr') || '').split(';').forEach(directive => {
+      const [attribute, key] = directive.split(':').map(part => part.trim());
+      if (!attribute || !key) return;
+      const translation = translate(key, tag);
+      if (translation !== null) result = setAttribute(result, attribute, translation);
+    });
+    return result;
+  });
+
+  // Meta tags
+  Object.entries(META_TAGS).forEach(([key, name]) => {
+    const translation = translate(`meta.${key}`, '');
+    if (translation === null) return;
+    html = html.replace(/<meta\b[^>]*>/g, tag =>
+      getAttribute(tag, 'name') === name || getAttribute(tag, 'property') === name
+        ? setAttribute(tag, 'content', translation)
+        : tag
+    );
+  });
+
+  // Structured data; the template's URLs are written against the production site
+  const pageUrl = `${baseUrl}${language.path}`;
+  const strings = chain.map(locale => locale.structuredData).find(Boolean);
+  html = html.replace(STRUCTURED_DATA, (match, openTag, leading, json, closeTag) => {
+    const indent = leading.replace(/^[\s\S]*\n/, '');
+    const data = localizeStructuredData(JSON.parse(json), {
+      siteUrl: DEFAULT_BASE_URL,
+      pageUrl,
+      languageCode: language.code,
+      strings,
+    });
+    // Escape '<' so strings can never close the script element
+    const localized = JSON.stringify(data, null, 2).replace(/</g, '\\u003c');
+    return `${openTag}${leading}${localized.split('\n').join(`\n${indent}`)}${closeTag}`;
+  });
+
+  // Canonical and hreflang links
+  const hreflangLinks = [
+    ...languages.map(({ locale, path: languagePath }) => [locale, `${baseUrl}${languagePath}`]),
+    ['x-default', `${baseUrl}${defaultLanguage.path}`],
+  ]
+    .map(([hreflang, href]) => `<link rel="alternate" hreflang="${hreflang}" href="${href}" />`)
+    .join('\n    ');
+  html = html.replace(/\n?[ \t]*<link\b[^>]*\shreflang="[^"]*"[^>]*>/g, '');
+  html = html.replace(
+    /<link\b[^>]*rel="canonical"[^>]*>/,
+    tag => `${setAttribute(tag, 'href', pageUrl)}\n    ${hreflangLinks}`
+  );
+
+  return html;
+}
+
+/**
+ * Prefix relative URLs so a page served from a subdirectory still finds shared assets
+ * URLs for which `keepRelative` returns true (e.g. pages that exist in that directory) are kept
+ */
+export function rebaseRelativeUrls(html, prefix, keepRelative = () => false) {
+  return html.replace(URL_ATTRIBUTES, (match, attribute, url) => {
+    if (!url || /^([a-z][a-z\d+.-]*:|\/|#)/i.test(url) || keepRelative(url)) {
+      return match;
+    }
+    return ` ${attribute}="${prefix}${url}"`;
+  });
+}
+
+/**
+ * Render index.html for every registered language into the output directory
+ */
+export async function prerenderPages({
+  rootDir = __dirname,
+  outDir = path.join(__dirname, 'dist'),
+  baseUrl = process.env.WEBSITE_URL || DEFAULT_BASE_URL,
+} = {}) {
+  const scriptsDir = path.join(outDir, 'scripts');
+  const { DEFAULT_LANGUAGES } = await import(
+    pathToFileURL(path.join(scriptsDir, 'modules/LanguageRegistry.js')).href
+  );
+  const { formatMessage } = await import(
+    pathToFileURL(path.join(scriptsDir, 'messageFormat.js')).href
+  );
+
+  const template = fs.readFileSync(path.join(rootDir, 'index.html'), 'utf8');
+  const locales = Object.fromEntries(
+    DEFAULT_LANGUAGES.map(({ code }) => [
+      code,
+      JSON.parse(fs.readFileSync(path.join(rootDir, 'src/locales', `${code}.json`), 'utf8')),
+    ])
+  );
+  const params = { year: new Date().getFullYear() };
+
+  DEFAULT_LANGUAGES.forEach(language => {
+    let html = renderPage(template, {
+      language,
+      languages: DEFAULT_LANGUAGES,
+      locales,
+      formatMessage,
+      baseUrl,
+      params,
+    });
+
+    const languageDir = language.path.replace(/^\/|\/$/g, '');
+    if (languageDir) {
+      const prefix = '../'.repeat(languageDir.split('/').length);
+      html = rebaseRelativeUrls(html, prefix, url =>
+        fs.existsSync(path.join(rootDir, languageDir, url.split(/[?#]/)[0]))
+      );
+    }
+
+    const outFile = path.join(outDir, languageDir, 'index.html');
+    fs.mkdirSync(path.dirname(outFile), { recursive: true });
+    fs.writeFileSync(outFile, html);
+    console.log(`✅ Pre-rendered ${path.relative(outDir, outFile)} (${language.locale})`);
+  });
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === __filename) {
+  prerenderPages().catch(error => {
+    console.error('❌ Pre-rendering failed:', error);
+    process.exit(1);
+  });
+}
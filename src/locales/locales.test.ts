@@ -0,0 +1,72 @@
+/**
+ * Locale Consistency Tests
+ * Runs the check-locales CLI checks as part of the test suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkLocaleFile,
+  checkLocales,
+  compareLocales,
+  extractHtmlKeys,
+  extractPlaceholders,
+} from '../../check-locales.js';
+
+describe('Locale files', () => {
+  it('should be consistent across languages, copies and HTML pages', () => {
+    expect(checkLocales().errors).toEqual([]);
+  });
+});
+
+describe('check-locales', () => {
+  it('should report missing, extra and mismatched keys', () => {
+    const reference = { nav: { home: 'Início', about: 'Sobre' }, greeting: 'Olá, {name}!' };
+    const locale = { nav: { home: 'Home', store: 'Store' }, greeting: 'Hello, {user}!' };
+
+    expect(compareLocales(reference, locale, { name: 'en.json' })).toEqual([
+      'en.json: missing key "nav.about"',
+      'en.json: "greeting" has placeholders [user], expected [name] as in pt',
+      'en.json: extra key "nav.store" not in pt',
+    ]);
+  });
+
+  it('should allow regional locales to omit keys', () => {
+    const reference = { nav: { home: 'Início', about: 'Sobre' } };
+
+    expect(
+      compareLocales(reference, { nav: { home: 'Home' } }, { name: 'en-GB.json', partial: true })
+    ).toEqual([]);
+  });
+
+  it('should report empty values and invalid ICU messages', () => {
+    expect(
+      checkLocaleFile({ title: ' ', count: '{count, plural, one {# item}}' }, 'pt.json')
+    ).toEqual([
+      'pt.json: empty key "title"',
+      'pt.json: "count" is not a valid ICU message (plural argument "count" has no "other" branch)',
+    ]);
+  });
+
+  it('should extract ICU arguments including nested ones', () => {
+    expect(
+      extractPlaceholders(
+        "{count, plural, one {# item for {name}} other {# items}} '{literal}' and {total, number}"
+      )
+    ).toEqual(['count:plural', 'name', 'total:number']);
+  });
+
+  it('should collect keys from data-translate, data-translate-html and data-translate-attr', () => {
+    const html = `
+      <h1 data-translate="hero.title">Título</h1>
+      <p data-translate-html="faq.q5.answer">Resposta</p>
+      <img alt="" data-translate-attr="alt:alt.storeFront; title:alt.heroImage" />
+    `;
+
+    expect(extractHtmlKeys(html)).toEqual([
+      'hero.title',
+      'faq.q5.answer',
+      'alt.storeFront',
+      'alt.heroImage',
+    ]);
+  });
+});
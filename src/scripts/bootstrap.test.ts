@@ -0,0 +1,118 @@
+/**
+ * Bootstrap Script Tests
+ * Runs the generated inline script against the DOM and checks its CSP hash
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { createBootstrapScript } from './bootstrapScript.js';
+import { LANGUAGE_STORAGE_KEY } from './modules/LanguageRegistry.js';
+import { THEME_STORAGE_KEY } from './modules/ThemeRegistry.js';
+
+const script = createBootstrapScript();
+
+const runBootstrap = () => new Function(script)();
+
+const mockMatchMedia = (matching: string[]) => {
+  Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: vi.fn().mockImplementation((query: string) => ({
+      matches: matching.includes(query),
+      media: query,
+    })),
+  });
+};
+
+describe('Bootstrap script', () => {
+  const root = document.documentElement;
+
+  beforeEach(() => {
+    localStorage.clear();
+    root.removeAttribute('style');
+    root.removeAttribute('data-theme');
+    root.removeAttribute('data-bootstrapped');
+    root.removeAttribute('data-prerendered');
+    root.setAttribute('data-translatable', '');
+    root.lang = '';
+    document.head.innerHTML = '<meta name="theme-color" content="#ffffff" />';
+    window.history.replaceState(null, '', '/');
+    mockMatchMedia([]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should apply the saved theme and language', () => {
+    localStorage.setItem(THEME_STORAGE_KEY, 'high-contrast');
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, 'en');
+
+    runBootstrap();
+
+    expect(root.getAttribute('data-theme')).toBe('high-contrast');
+    expect(root.style.getPropertyValue('--brand-primary')).toBe('#0a5c0a');
+    expect(document.querySelector('meta[name="theme-color"]')?.getAttribute('content')).toBe(
+      '#000000'
+    );
+    expect(root.lang).toBe('en-US');
+    expect(root.hasAttribute('data-bootstrapped')).toBe(true);
+  });
+
+  it('should follow the system preference and the URL', () => {
+    mockMatchMedia(['(prefers-color-scheme: dark)']);
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, 'pt');
+    window.history.replaceState(null, '', '/en/');
+
+    runBootstrap();
+
+    expect(root.getAttribute('data-theme')).toBe('dark');
+    expect(root.style.getPropertyValue('color-scheme')).toBe('dark');
+    expect(root.lang).toBe('en-US');
+  });
+
+  it('should only apply a seasonal theme in season', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    localStorage.setItem(THEME_STORAGE_KEY, 'festive');
+
+    vi.setSystemTime(new Date(2025, 6, 1));
+    runBootstrap();
+    expect(root.getAttribute('data-theme')).toBe('light');
+
+    vi.setSystemTime(new Date(2025, 0, 6));
+    runBootstrap();
+    expect(root.getAttribute('data-theme')).toBe('festive');
+  });
+
+  it('should keep the language of pages that are not translated in place', () => {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, 'en');
+    root.lang = 'pt';
+    root.removeAttribute('data-translatable');
+    window.history.replaceState(null, '', '/privacy.html');
+
+    runBootstrap();
+
+    expect(root.lang).toBe('pt');
+  });
+
+  it('should keep the language of pre-rendered pages', () => {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, 'en');
+    root.lang = 'pt-PT';
+    root.setAttribute('data-prerendered', '');
+
+    runBootstrap();
+
+    expect(root.lang).toBe('pt-PT');
+  });
+});
+
+describe('Bootstrap CSP hash', () => {
+  it('should be allowed by the committed vercel.json', () => {
+    // Vercel reads the committed file, so a stale hash would block the script in production
+    const hash = crypto.createHash('sha256').update(script, 'utf8').digest('base64');
+    const vercelConfig = fs.readFileSync(path.resolve(__dirname, '../../vercel.json'), 'utf8');
+
+    expect(vercelConfig).toContain(`'sha256-${hash}'`);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Theme and language bootstrap for LOFERSIL pages
+ * Generates the small inline script that sets data-theme, the theme tokens and, on pages
+ * translated in place (<html data-translatable>), the html lang attribute before first
+ * paint. The build inlines it into every page (see bootstrap.js) and
+ * ThemeManager and TranslationManager hydrate from the state it leaves on
+ * <html data-bootstrapped>.
+ */
+
+import { Language, Theme } from './types.js';
+import { DEFAULT_LANGUAGES, LANGUAGE_STORAGE_KEY } from './modules/LanguageRegistry.js';
+import { DEFAULT_THEMES, THEME_STORAGE_KEY, themeRegistry } from './modules/ThemeRegistry.js';
+
+export interface BootstrapOptions {
+  themes: Theme[];
+  defaultTheme: string;
+  languages: Language[];
+  themeKey: string;
+  languageKey: string;
+}
+
+// Plain ES5 so it runs before anything else loads; mirrors ThemeManager.getSystemTheme,
+// ThemeRegistry.isInSeason and TranslationManager.detectLanguage
+const BOOTSTRAP_SOURCE = `(function (c) {
+  var root = document.documentElement;
+  var stored = function (key) {
+    try {
+      return localStorage.getItem(key);
+    } catch (e) {
+      return null;
+    }
+  };
+  var prefers = function (query) {
+    return !!window.matchMedia && window.matchMedia(query).matches;
+  };
+  var inSeason = function (season) {
+    if (!season) return true;
+    var now = new Date();
+    var day = (now.getMonth() + 1) * 100 + now.getDate();
+    var first = season.start[0] * 100 + season.start[1];
+    var last = season.end[0] * 100 + season.end[1];
+    return first <= last ? day >= first && day <= last : day >= first || day <= last;
+  };
+
+  var id = stored(c.themeKey);
+  if (!c.themes[id] || !inSeason(c.themes[id].season)) {
+    id = c.themes['high-contrast'] && prefers('(prefers-contrast: more)')
+      ? 'high-contrast'
+      : c.themes.dark && prefers('(prefers-color-scheme: dark)')
+        ? 'dark'
+        : c.defaultTheme;
+  }
+  var theme = c.themes[id];
+  for (var name in theme.tokens) root.style.setProperty(name, theme.tokens[name]);
+  root.style.setProperty('color-scheme', theme.colorScheme);
+  root.setAttribute('data-theme', id);
+  var meta = document.querySelector('meta[name="theme-color"]');
+  if (meta) meta.setAttribute('content', theme.metaColor);
+
+  // Only pages translated in place follow the stored language; others keep their own
+  if (root.hasAttribute('data-translatable') && !root.hasAttribute('data-prerendered')) {
+    var pathname = location.pathname;
+    var code = stored(c.languageKey);
+    var tag = (navigator.language || '').toLowerCase();
+    var find = function (test) {
+      for (var i = 0; i < c.languages.length; i++) if (test(c.languages[i])) return c.languages[i];
+    };
+    var language =
+      find(function (l) {
+        return l.path !== '/' && (pathname.indexOf(l.path) === 0 || pathname === l.path.slice(0, -1));
+      }) ||
+      find(function (l) { return l.code === code; }) ||
+      find(function (l) { return l.locale.toLowerCase() === tag; }) ||
+      find(function (l) { return l.code === tag.split('-')[0]; }) ||
+      c.languages[0];
+    root.lang = language.locale;
+  }
+  root.setAttribute('data-bootstrapped', '');
+})`;
+
+/**
+ * Build the inline script, by default for the registered themes and languages
+ */
+export function createBootstrapScript({
+  themes = DEFAULT_THEMES,
+  defaultTheme = themeRegistry.getDefault().id,
+  languages = DEFAULT_LANGUAGES,
+  themeKey = THEME_STORAGE_KEY,
+  languageKey = LANGUAGE_STORAGE_KEY,
+}: Partial<BootstrapOptions> = {}): string {
+  const config = {
+    themeKey,
+    languageKey,
+    defaultTheme,
+    // Availability functions cannot be inlined, so those themes are left to ThemeManager
+    themes: Object.fromEntries(
+      themes
+        .filter(theme => !theme.isAvailable)
+        .map(({ id, colorScheme, metaColor, tokens, season }) => [
+          id,
+          { colorScheme, metaColor, tokens, season },
+        ])
+    ),
+    languages: languages.map(({ code, locale, path }) => ({ code, locale, path })),
+  };
+  return `${BOOTSTRAP_SOURCE}(${JSON.stringify(config)});`;
+}
@@ -0,0 +1,195 @@
+/**
+ * LOFERSIL Landing Page - Contact Form Schema
+ * Single declarative definition of the contact form fields.
+ * Validation, sanitization and DOM wiring are all generated from this list,
+ * so adding a field (e.g. "subject") only requires a new entry here and its locale keys.
+ */
+
+export type ContactFieldType = 'text' | 'email' | 'tel' | 'textarea' | 'select';
+
+export interface ContactFieldOption {
+  value: string;
+  // Locale key of the option label, e.g. 'contact.topics.accounting'
+  labelKey: string;
+  // Portuguese fallback label
+  label: string;
+}
+
+export interface ContactFieldSchema {
+  name: string;
+  type: ContactFieldType;
+  required: boolean;
+  minLength?: number;
+  maxLength: number;
+  pattern?: RegExp;
+  // Rule reported when the pattern does not match
+  patternRule?: string;
+  // Minimum number of digits, for phone-like fields
+  minDigits?: number;
+  // Locale key of the field label, e.g. 'contact.nameLabel'
+  labelKey: string;
+  // Portuguese fallback label
+  label: string;
+  // Locale section holding this field's validation messages, e.g. 'contact.validation.name'
+  translationKey: string;
+  autocomplete?: string;
+  // Personal details that must not be written to autosaved drafts
+  sensitive?: boolean;
+  // Allowed values, for select fields; anything else fails the 'invalid' rule
+  options?: ContactFieldOption[];
+  // Portuguese fallback messages keyed by rule
+  messages: Record<string, string>;
+}
+
+// Contact topics, one per LOFERSIL service (see the 'features' locale section)
+// Each topic can be routed to its own recipient (API) or endpoint (ContactFormManager)
+export const CONTACT_TOPICS: ContactFieldOption[] = [
+  { value: 'general', labelKey: 'contact.topics.general', label: 'Informações gerais' },
+  { value: 'accounting', labelKey: 'contact.topics.accounting', label: 'Serviços contabilísticos' },
+  { value: 'binding', labelKey: 'contact.topics.binding', label: 'Encadernação & plastificação' },
+  { value: 'shipping', labelKey: 'contact.topics.shipping', label: 'Ponto de serviço DHL' },
+  { value: 'products', labelKey: 'contact.topics.products', label: 'Produtos & encomendas' },
+];
+
+export const DEFAULT_CONTACT_TOPIC = 'general';
+
+export const CONTACT_FORM_SCHEMA: ContactFieldSchema[] = [
+  {
+    name: 'name',
+    type: 'text',
+    required: true,
+    minLength: 2,
+    maxLength: 100,
+    pattern: /^[a-zA-Zà-žÀ-Ž\s\-']+$/u,
+    patternRule: 'invalidChars',
+    labelKey: 'contact.nameLabel',
+    label: 'Nome *',
+    translationKey: 'contact.validation.name',
+    autocomplete: 'name',
+    sensitive: true,
+    messages: {
+      required: 'Nome é obrigatório',
+      tooShort: 'Nome deve ter pelo menos 2 caracteres',
+      tooLong: 'Nome deve ter menos de 100 caracteres',
+      invalidChars: 'Nome contém caracteres inválidos',
+    },
+  },
+  {
+    name: 'email',
+    type: 'email',
+    required: true,
+    maxLength: 254,
+    pattern:
+      /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/,
+    patternRule: 'invalid',
+    labelKey: 'contact.emailLabel',
+    label: 'Email *',
+    translationKey: 'contact.validation.email',
+    autocomplete: 'email',
+    sensitive: true,
+    messages: {
+      required: 'Email é obrigatório',
+      invalid: 'Por favor, insira um email válido',
+      tooLong: 'Endereço de email muito longo',
+    },
+  },
+  {
+    name: 'phone',
+    type: 'tel',
+    required: false,
+    maxLength: 20,
+    pattern: /^[+]?[\d\s\-()]+$/,
+    patternRule: 'invalid',
+    minDigits: 7,
+    labelKey: 'contact.phoneLabel',
+    label: 'Telefone',
+    translationKey: 'contact.validation.phone',
+    autocomplete: 'tel',
+    sensitive: true,
+    messages: {
+      invalid: 'Por favor, insira um número de telefone válido',
+      tooLong: 'Número de telefone muito longo',
+    },
+  },
+  {
+    name: 'topic',
+    type: 'select',
+    // Optional so older clients and queued submissions still validate; routed as 'general'
+    required: false,
+    maxLength: 32,
+    options: CONTACT_TOPICS,
+    labelKey: 'contact.topicLabel',
+    label: 'Assunto',
+    translationKey: 'contact.validation.topic',
+    messages: {
+      invalid: 'Por favor, escolha um assunto válido',
+    },
+  },
+  {
+    name: 'message',
+    type: 'textarea',
+    required: true,
+    minLength: 10,
+    maxLength: 2000,
+    labelKey: 'contact.messageLabel',
+    label: 'Mensagem *',
+    translationKey: 'contact.validation.message',
+    autocomplete: 'off',
+    messages: {
+      required: 'Mensagem é obrigatória',
+      tooShort: 'Mensagem deve ter pelo menos 10 caracteres',
+      tooLong: 'Mensagem deve ter menos de 2000 caracteres',
+    },
+  },
+];
+
+export interface AttachmentRules {
+  // Name of the file input and of the multipart field
+  name: string;
+  maxFiles: number;
+  maxFileSize: number;
+  // Vercel functions accept request bodies up to 4.5 MB
+  maxTotalSize: number;
+  allowedTypes: string[];
+  labelKey: string;
+  translationKey: string;
+  messages: Record<string, string>;
+}
+
+// Optional documents or photos for print, binding and ink-cartridge requests
+export const ATTACHMENT_RULES: AttachmentRules = {
+  name: 'attachments',
+  maxFiles: 3,
+  maxFileSize: 4 * 1024 * 1024,
+  maxTotalSize: 4 * 1024 * 1024,
+  allowedTypes: ['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/heic'],
+  labelKey: 'contact.attachmentsLabel',
+  translationKey: 'contact.validation.attachments',
+  messages: {
+    tooMany: 'Pode anexar no máximo 3 ficheiros',
+    invalidType: 'Apenas são aceites ficheiros PDF, JPG, PNG, WebP ou HEIC',
+    tooLarge: 'Cada ficheiro deve ter no máximo 4 MB',
+    totalTooLarge: 'Os anexos não podem ultrapassar 4 MB no total',
+  },
+};
+
+/**
+ * Get the schema of a single field
+ */
+export function getFieldSchema(name: string): ContactFieldSchema | undefined {
+  return CONTACT_FORM_SCHEMA.find(field => field.name === name);
+}
+
+/**
+ * Names of all fields in schema order
+ */
+export function getContactFieldNames(): string[] {
+  return CONTACT_FORM_SCHEMA.map(field => field.name);
+}
+
+/**
+ * Get the Portuguese label of a contact topic
+ */
+export function getTopicLabel(value: string | undefined): string {
+  return CONTACT_TOPICS.find(topic => topic.value === value)?.label || value || '';
+}
@@ -0,0 +1,100 @@
+/**
+ * Contact Validation Tests
+ * Localized messages, the declarative schema and attachment limits of the contact form
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CONTACT_FORM_SCHEMA } from './contactFormSchema.js';
+import {
+  getValidationMessage,
+  resolveValidationMessages,
+  sanitizeContactData,
+  validateAttachments,
+  validateContactForm,
+  validateEmail,
+  validateName,
+  VALIDATION_MESSAGES,
+} from './validation.js';
+
+describe('localized validation messages', () => {
+  const english = resolveValidationMessages({
+    contact: { validation: { name: { required: 'Name is required' } } },
+  });
+
+  it('should use the locale text', () => {
+    const result = validateName('', english);
+
+    expect(result.error).toBe('Name is required');
+    expect(result.errorKey).toBe('name.required');
+  });
+
+  it('should fall back to the built-in messages for missing keys', () => {
+    expect(validateEmail('', english).error).toBe(VALIDATION_MESSAGES.email.required);
+  });
+
+  it('should use the given messages for the whole form', () => {
+    const result = validateContactForm(
+      { name: '', email: 'john@example.com', message: '' },
+      english
+    );
+
+    expect(result.errors.name).toBe('Name is required');
+    expect(result.fieldResults.message.errorKey).toBe('message.required');
+  });
+
+  it('should look messages up by key', () => {
+    expect(getValidationMessage('message.tooShort')).toBe(VALIDATION_MESSAGES.message.tooShort);
+  });
+});
+
+describe('contact form schema', () => {
+  const base = { name: 'João Silva', email: 'joao@example.com', message: 'Mensagem de teste' };
+
+  it('should have fallback messages for every field', () => {
+    CONTACT_FORM_SCHEMA.forEach(field => {
+      expect(VALIDATION_MESSAGES[field.name], field.name).toBeDefined();
+    });
+  });
+
+  it('should truncate values to their maxLength and drop empty fields', () => {
+    const sanitized = sanitizeContactData({ ...base, name: 'a'.repeat(150) });
+
+    expect(sanitized.name).toHaveLength(100);
+    expect(sanitized.phone).toBeUndefined();
+  });
+
+  it('should only accept known topics', () => {
+    expect(validateContactForm({ ...base, topic: 'accounting' }).isValid).toBe(true);
+    expect(validateContactForm({ ...base, topic: 'astrology' }).errors.topic).toBe(
+      VALIDATION_MESSAGES.topic.invalid
+    );
+  });
+});
+
+describe('validateAttachments', () => {
+  const pdf = { name: 'orcamento.pdf', type: 'application/pdf', size: 1024 };
+
+  it('should accept no files and supported files', () => {
+    expect(validateAttachments([]).isValid).toBe(true);
+    expect(validateAttachments([pdf]).isValid).toBe(true);
+  });
+
+  it('should reject too many files', () => {
+    expect(validateAttachments([pdf, pdf, pdf, pdf]).errorKey).toBe('attachments.tooMany');
+  });
+
+  it('should reject unsupported types', () => {
+    const exe = { name: 'setup.exe', type: 'application/x-msdownload', size: 1024 };
+
+    expect(validateAttachments([exe]).errorKey).toBe('attachments.invalidType');
+  });
+
+  it('should reject files and totals over the size limits', () => {
+    const half = { ...pdf, size: 2.5 * 1024 * 1024 };
+
+    expect(validateAttachments([{ ...pdf, size: 5 * 1024 * 1024 }]).errorKey).toBe(
+      'attachments.tooLarge'
+    );
+    expect(validateAttachments([half, half]).errorKey).toBe('attachments.totalTooLarge');
+  });
+});
@@ -2,8 +2,10 @@
  * LOFERSIL Landing Page - Main TypeScript Entry Point
  * Handles navigation, interactions, and dynamic content loading
  */
+import { AnchorNavigator } from './modules/AnchorNavigator.js';
 import type { ContactFormManager } from './modules/ContactFormManager.js';
 import { TranslationManager } from './modules/TranslationManager.js';
+import { LocaleFormatter } from './modules/LocaleFormatter.js';
 import { NavigationManager } from './modules/NavigationManager.js';
 import { ScrollManager } from './modules/ScrollManager.js';
 import { simpleLogger } from './modules/simpleLogger.js';
@@ -17,7 +19,9 @@ import './modules/MobileGalleryCarousel.js';
 class LOFERSILLandingPage {
   private mainContent: HTMLElement | null;
   private translationManager!: TranslationManager;
+  private localeFormatter!: LocaleFormatter;
   private navigationManager!: NavigationManager;
+  private anchorNavigator!: AnchorNavigator;
   private scrollManager!: ScrollManager;
   private logger = simpleLogger;
   private contactFormManager: ContactFormManager | null = null;
@@ -42,10 +46,19 @@ class LOFERSILLandingPage {
       this.translationManager = new TranslationManager();
       this.navigationManager = new NavigationManager();
 
-      this.scrollManager = new ScrollManager(this.navigationManager);
+      this.anchorNavigator = new AnchorNavigator(this.navigationManager);
+      this.anchorNavigator.initialize();
+
+      this.scrollManager = new ScrollManager(this.navigationManager, this.anchorNavigator);
       this.navigationManager.setupNavigation();
       await this.translationManager.initialize();
+      this.setupCopyrightYear();
+      // Translated text moves sections, so deep links are followed once it is in place
+      this.anchorNavigator.scrollToHash();
+      this.localeFormatter = new LocaleFormatter(this.translationManager);
+      this.localeFormatter.initialize();
       this.setupLanguageToggle();
+      void this.setupTranslationDebugOverlay();
 
       this.themeManager = new ThemeManager();
 
@@ -65,25 +78,95 @@ class LOFERSILLandingPage {
     this.mainContent = document.getElementById('main-content');
   }
 
+  /**
+   * Supply the current year to the footer copyright message
+   * Also rewrites the text, as pre-rendered pages carry the year they were built in
+   */
+  setupCopyrightYear() {
+    const params = { year: new Date().getFullYear() };
+    const copyright = this.translationManager.t('footer.copyright', params);
+    document.querySelectorAll('[data-translate="footer.copyright"]').forEach(element => {
+      element.setAttribute('data-translate-params', JSON.stringify(params));
+      if (copyright !== 'footer.copyright') {
+        element.textContent = copyright;
+      }
+    });
+  }
+
   /**
    * Setup language toggle functionality
    */
   setupLanguageToggle() {
     const langToggle = document.getElementById('lang-toggle') as HTMLButtonElement;
     if (langToggle) {
+      const languages = this.translationManager.getLanguages();
+      if (languages.length > 2) {
+        this.setupLanguagePicker(langToggle);
+        return;
+      }
+
       const currentLang = this.translationManager.getCurrentLanguage();
       langToggle.textContent = currentLang.toUpperCase();
       langToggle.setAttribute('data-translate', 'nav.langToggle');
 
       langToggle.addEventListener('click', () => {
-        const currentLang = this.translationManager.getCurrentLanguage() as 'pt' | 'en';
-        const newLang: 'pt' | 'en' = currentLang === 'pt' ? 'en' : 'pt';
+        const currentLang = this.translationManager.getCurrentLanguage();
+        const newLang = languages.find(language => language.code !== currentLang);
 
-        this.translationManager.switchLanguage(newLang);
+        if (newLang) {
+          void this.translationManager.switchLanguage(newLang.code);
+        }
       });
     }
   }
 
+  /**
+   * Replace the language toggle with a dropdown picker listing every registered language
+   */
+  setupLanguagePicker(langToggle: HTMLButtonElement) {
+    const picker = document.createElement('select');
+    picker.id = 'lang-picker';
+    picker.className = 'lang-picker';
+
+    this.translationManager.getLanguages().forEach(language => {
+      const option = document.createElement('option');
+      option.value = language.code;
+      option.lang = language.locale;
+      option.textContent = `${language.flag} ${language.name}`;
+      picker.appendChild(option);
+    });
+
+    const syncPicker = () => {
+      picker.value = this.translationManager.getCurrentLanguage();
+      picker.setAttribute('aria-label', this.translationManager.translate('nav.langPicker'));
+    };
+
+    picker.addEventListener('change', async () => {
+      await this.translationManager.switchLanguage(picker.value);
+      // Switching may be rejected (e.g. the locale failed to load)
+      syncPicker();
+    });
+    // Also called right away, as translations are already loaded
+    this.translationManager.onLanguageChange(syncPicker);
+    langToggle.replaceWith(picker);
+  }
+
+  /**
+   * Highlight untranslated elements during local development
+   */
+  private async setupTranslationDebugOverlay(): Promise<void> {
+    if (window.location.hostname !== 'localhost' && window.location.hostname !== '127.0.0.1') {
+      return;
+    }
+
+    try {
+      const { TranslationDebugOverlay } = await import('./modules/TranslationDebugOverlay.js');
+      new TranslationDebugOverlay().initialize();
+    } catch (error) {
+      console.error('Failed to load translation debug overlay:', error);
+    }
+  }
+
   /**
    * Setup theme change listener
    */
@@ -110,7 +193,7 @@ class LOFERSILLandingPage {
             observer.disconnect();
             try {
               const { createContactForm } = await import('./modules/ContactFormManager.js');
-              this.contactFormManager = createContactForm();
+              this.contactFormManager = createContactForm(this.translationManager);
             } catch (error) {
               console.error('Failed to load contact form manager:', error);
             }
@@ -122,7 +205,7 @@ class LOFERSILLandingPage {
     } else {
       try {
         const { createContactForm } = await import('./modules/ContactFormManager.js');
-        this.contactFormManager = createContactForm();
+        this.contactFormManager = createContactForm(this.translationManager);
       } catch (error) {
         console.error('Failed to load contact form manager:', error);
       }
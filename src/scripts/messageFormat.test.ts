@@ -0,0 +1,46 @@
+/**
+ * Message Format Tests
+ * Unit tests for ICU-style translation formatting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatMessage } from './messageFormat.js';
+
+describe('formatMessage', () => {
+  it('should return plain messages unchanged', () => {
+    expect(formatMessage('Mensagem enviada com sucesso!')).toBe('Mensagem enviada com sucesso!');
+  });
+
+  it('should interpolate simple arguments', () => {
+    expect(formatMessage('© {year} LOFERSIL', { year: 2026 })).toBe('© 2026 LOFERSIL');
+  });
+
+  it('should leave missing arguments in place', () => {
+    expect(formatMessage('Obrigado, {name}!')).toBe('Obrigado, {name}!');
+  });
+
+  it('should select plural branches using the locale rules', () => {
+    const message = '{count, plural, =0 {no products} one {# product} other {# products}}';
+
+    expect(formatMessage(message, { count: 0 }, 'en-US')).toBe('no products');
+    expect(formatMessage(message, { count: 1 }, 'en-US')).toBe('1 product');
+    expect(formatMessage(message, { count: 1200 }, 'en-US')).toBe('1,200 products');
+  });
+
+  it('should support select with nested arguments', () => {
+    const message = '{gender, select, female {Bem-vinda, {name}} other {Bem-vindo, {name}}}';
+
+    expect(formatMessage(message, { gender: 'female', name: 'Ana' })).toBe('Bem-vinda, Ana');
+    expect(formatMessage(message, { name: 'Rui' })).toBe('Bem-vindo, Rui');
+  });
+
+  it('should treat quoted syntax and apostrophes as text', () => {
+    expect(formatMessage("We'll reply to '{name}'", { name: 'Ana' })).toBe("We'll reply to {name}");
+  });
+
+  it('should return malformed messages unformatted', () => {
+    expect(formatMessage('{count, plural, one {# item}', { count: 1 })).toBe(
+      '{count, plural, one {# item}'
+    );
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * ICU-style message formatting for LOFERSIL translations
+ * Supports the subset of ICU MessageFormat the locales use:
+ *   {name}                                      simple interpolation
+ *   {count, number}                             locale-aware numbers
+ *   {count, plural, =0 {...} one {# item} other {# items}}
+ *   {gender, select, female {...} male {...} other {...}}
+ * Branches may nest further arguments. '' is a literal apostrophe and '{...}' is quoted text.
+ */
+
+export type MessageParams = Record<string, string | number>;
+
+type MessageNode =
+  | { type: 'text'; value: string }
+  | { type: 'pound' }
+  | { type: 'argument'; name: string; format?: string }
+  | { type: 'plural' | 'select'; name: string; options: Record<string, MessageNode[]> };
+
+const parsedMessages = new Map<string, MessageNode[]>();
+
+/**
+ * Format a message with the given parameters
+ * Unknown parameters are left as {name}; malformed messages are returned unformatted
+ */
+export function formatMessage(
+  message: string,
+  params: MessageParams = {},
+  locale = 'pt-PT'
+): string {
+  if (!message.includes('{') && !message.includes("'")) {
+    return message;
+  }
+
+  let nodes = parsedMessages.get(message);
+  if (!nodes) {
+    try {
+      nodes = new MessageParser(message).parse();
+    } catch (error) {
+      console.warn(`Invalid message format "${message}":`, error);
+      return message;
+    }
+    parsedMessages.set(message, nodes);
+  }
+
+  return render(nodes, params, locale, null);
+}
+
+/**
+ * Render parsed nodes; `pluralValue` is the number '#' stands for inside a plural branch
+ */
+function render(
+  nodes: MessageNode[],
+  params: MessageParams,
+  locale: string,
+  pluralValue: number | null
+): string {
+  return nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+        case 'pound':
+          return pluralValue === null ? '#' : new Intl.NumberFormat(locale).format(pluralValue);
+        case 'argument': {
+          const value = params[node.name];
+          if (value === undefined) return `{${node.name}}`;
+          return node.format === 'number'
+            ? new Intl.NumberFormat(locale).format(Number(value))
+            : String(value);
+        }
+        case 'plural': {
+          const value = Number(params[node.name]);
+          const category = new Intl.PluralRules(locale).select(value);
+          const branch = node.options[`=${value}`] || node.options[category] || node.options.other;
+          return branch ? render(branch, params, locale, value) : '';
+        }
+        case 'select': {
+          const value = String(params[node.name] ?? 'other');
+          const branch = node.options[value] || node.options.other;
+          return branch ? render(branch, params, locale, pluralValue) : '';
+        }
+      }
+    })
+    .join('');
+}
+
+class MessageParser {
+  private source: string;
+  private position = 0;
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  /**
+   * Parse the whole message
+   */
+  parse(): MessageNode[] {
+    const nodes = this.parseNodes(false);
+    if (this.position < this.source.length) {
+      throw new Error(`Unexpected "}" at ${this.position}`);
+    }
+    return nodes;
+  }
+
+  /**
+   * Parse text and arguments up to the end of the message or the closing brace of a branch
+   */
+  private parseNodes(inPlural: boolean): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = '';
+    const flushText = () => {
+      if (text) nodes.push({ type: 'text', value: text });
+      text = '';
+    };
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+
+      if (char === '}') break;
+
+      if (char === '{') {
+        flushText();
+        nodes.push(this.parseArgument(inPlural));
+      } else if (char === '#' && inPlural) {
+        flushText();
+        nodes.push({ type: 'pound' });
+        this.position++;
+      } else if (char === "'") {
+        text += this.parseQuoted();
+      } else {
+        text += char;
+        this.position++;
+      }
+    }
+
+    flushText();
+    return nodes;
+  }
+
+  /**
+   * Parse an apostrophe: '' is a literal quote, '{...}' quotes syntax characters
+   */
+  private parseQuoted(): string {
+    const next = this.source[this.position + 1];
+    if (next === "'") {
+      this.position += 2;
+      return "'";
+    }
+    if (next !== '{' && next !== '}' && next !== '#') {
+      this.position++;
+      return "'";
+    }
+
+    const end = this.source.indexOf("'", this.position + 1);
+    const closing = end === -1 ? this.source.length : end;
+    const quoted = this.source.slice(this.position + 1, closing);
+    this.position = closing + 1;
+    return quoted;
+  }
+
+  /**
+   * Parse an argument starting at '{'
+   */
+  private parseArgument(inPlural: boolean): MessageNode {
+    this.position++; // {
+    const name = this.readToken();
+    if (!name) throw new Error(`Missing argument name at ${this.position}`);
+
+    if (this.consume('}')) {
+      return { type: 'argument', name };
+    }
+    this.expect(',');
+
+    const format = this.readToken();
+    if (format !== 'plural' && format !== 'select') {
+      this.expect('}');
+      return { type: 'argument', name, format };
+    }
+    this.expect(',');
+
+    const options: Record<string, MessageNode[]> = {};
+    this.skipWhitespace();
+    while (!this.consume('}')) {
+      const selector = this.readToken();
+      if (!selector) throw new Error(`Missing ${format} selector at ${this.position}`);
+      this.expect('{');
+      options[selector] = this.parseNodes(format === 'plural' || inPlural);
+      this.expect('}');
+      this.skipWhitespace();
+    }
+
+    if (!options.other) throw new Error(`Missing "other" branch for ${name}`);
+    return { type: format, name, options };
+  }
+
+  /**
+   * Read an identifier or selector such as 'count', 'one' or '=0'
+   */
+  private readToken(): string {
+    this.skipWhitespace();
+    const match = /^[^\s{},]+/.exec(this.source.slice(this.position));
+    const token = match ? match[0] : '';
+    this.position += token.length;
+    this.skipWhitespace();
+    return token;
+  }
+
+  /**
+   * Consume a character if it is next
+   */
+  private consume(char: string): boolean {
+    if (this.source[this.position] === char) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Consume a required character
+   */
+  private expect(char: string): void {
+    this.skipWhitespace();
+    if (!this.consume(char)) {
+      throw new Error(`Expected "${char}" at ${this.position}`);
+    }
+  }
+
+  /**
+   * Skip whitespace between syntax elements
+   */
+  private skipWhitespace(): void {
+    while (/\s/.test(this.source[this.position] || '')) {
+      this.position++;
+    }
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * AnchorNavigator Tests
+ * In-page scrolling below the fixed header, reduced motion, focus and deep links
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AnchorNavigator } from './AnchorNavigator.js';
+import { NavigationManager } from './NavigationManager.js';
+
+describe('AnchorNavigator', () => {
+  let anchorNavigator: AnchorNavigator;
+  let scrollTo: ReturnType<typeof vi.fn>;
+
+  const mockReducedMotion = (reduce: boolean) => {
+    Object.defineProperty(window, 'matchMedia', {
+      writable: true,
+      value: vi.fn().mockImplementation((query: string) => ({
+        matches: reduce && query === '(prefers-reduced-motion: reduce)',
+        media: query,
+      })),
+    });
+  };
+
+  const placeAt = (id: string, top: number, height = 0) => {
+    document.getElementById(id)!.getBoundingClientRect = () => ({ top, height }) as DOMRect;
+  };
+
+  const click = (element: Element, init: MouseEventInit = {}) => {
+    const event = new MouseEvent('click', { bubbles: true, cancelable: true, ...init });
+    element.dispatchEvent(event);
+    return event;
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <header id="main-header" style="position: fixed"></header>
+      <a href="#faq" id="faq-link">FAQ</a>
+      <a href="#missing" id="missing-link">Missing</a>
+      <section id="faq"><h2>Perguntas</h2></section>
+      <main id="main-content"><p>Content</p></main>
+    `;
+    window.history.replaceState({ language: 'pt' }, '', '/');
+    placeAt('main-header', 0, 80);
+    placeAt('faq', 1000);
+    mockReducedMotion(false);
+    scrollTo = vi.fn();
+    vi.stubGlobal('scrollTo', scrollTo);
+
+    anchorNavigator = new AnchorNavigator();
+    anchorNavigator.initialize();
+  });
+
+  afterEach(() => {
+    anchorNavigator.destroy();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should scroll in-page links below the fixed header', () => {
+    const event = click(document.getElementById('faq-link')!);
+
+    expect(event.defaultPrevented).toBe(true);
+    expect(scrollTo).toHaveBeenCalledWith({ top: 920, behavior: 'smooth' });
+    expect(window.location.hash).toBe('#faq');
+    expect(window.history.state).toEqual({ language: 'pt' });
+  });
+
+  it('should leave modified clicks and unknown targets to the browser', () => {
+    expect(click(document.getElementById('faq-link')!, { ctrlKey: true }).defaultPrevented).toBe(
+      false
+    );
+    expect(click(document.getElementById('missing-link')!).defaultPrevented).toBe(false);
+    expect(scrollTo).not.toHaveBeenCalled();
+  });
+
+  it('should still scroll and focus when the browser refuses history updates', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(window.history, 'replaceState').mockImplementation(() => {
+      throw new DOMException('Attempt to use history.replaceState() too often', 'SecurityError');
+    });
+
+    expect(anchorNavigator.scrollTo('#faq')).toBe(true);
+    expect(scrollTo).toHaveBeenCalledWith({ top: 920, behavior: 'smooth' });
+    expect(document.activeElement).toBe(document.querySelector('#faq h2'));
+  });
+
+  it('should jump without animating when reduced motion is preferred', () => {
+    mockReducedMotion(true);
+
+    anchorNavigator.scrollTo('#faq', { offset: 20 });
+
+    expect(scrollTo).toHaveBeenCalledWith({ top: 900, behavior: 'instant' });
+  });
+
+  it('should move focus to the target heading', () => {
+    anchorNavigator.scrollTo('#faq');
+
+    const heading = document.querySelector('#faq h2');
+    expect(document.activeElement).toBe(heading);
+    expect(heading?.getAttribute('tabindex')).toBe('-1');
+  });
+
+  it('should focus targets without a heading themselves', () => {
+    anchorNavigator.scrollTo('#main-content');
+
+    expect(document.activeElement).toBe(document.getElementById('main-content'));
+  });
+
+  it('should follow deep links without changing the URL', () => {
+    window.history.replaceState(null, '', '/en/#faq');
+
+    expect(anchorNavigator.scrollToHash()).toBe(true);
+    expect(scrollTo).toHaveBeenCalledWith({ top: 920, behavior: 'instant' });
+    expect(window.location.pathname).toBe('/en/');
+  });
+
+  it('should keep the scroll-spy on the target while scrolling', () => {
+    const navigationManager = new NavigationManager();
+    const markScrollTarget = vi.spyOn(navigationManager, 'markScrollTarget');
+
+    new AnchorNavigator(navigationManager).scrollTo('#faq');
+
+    expect(markScrollTarget).toHaveBeenCalledWith('faq');
+  });
+});
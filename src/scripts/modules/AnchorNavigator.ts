@@ -0,0 +1,170 @@
+/**
+ * Anchor Navigator for LOFERSIL Landing Page
+ * Scrolls to in-page targets (#about, #contact-form, ...) for links, deep links and other
+ * modules: keeps targets clear of the fixed header, honours prefers-reduced-motion and moves
+ * keyboard focus to the target's heading so screen readers announce where the visitor landed.
+ */
+
+import type { NavigationManager } from './NavigationManager.js';
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+const FOCUSABLE_SELECTOR = 'a[href], button, input, select, textarea, [tabindex]';
+
+export interface AnchorScrollOptions {
+  // Extra space to leave above the target, on top of the header height
+  offset?: number;
+  // Move keyboard focus to the target's heading
+  focus?: boolean;
+  // Replace the URL hash with the target's id
+  updateHash?: boolean;
+  // Jump without animating, e.g. for deep links on load
+  instant?: boolean;
+}
+
+export class AnchorNavigator {
+  private readonly navigationManager?: NavigationManager;
+  private readonly header: HTMLElement | null;
+  private readonly clickHandler = (event: MouseEvent) => this.handleClick(event);
+  private readonly hashChangeHandler = () => this.scrollToHash();
+
+  constructor(
+    navigationManager?: NavigationManager,
+    header: HTMLElement | null = document.getElementById('main-header')
+  ) {
+    this.navigationManager = navigationManager;
+    this.header = header;
+  }
+
+  /**
+   * Intercept in-page links and hash changes for the whole page
+   */
+  initialize(): void {
+    document.addEventListener('click', this.clickHandler);
+    window.addEventListener('hashchange', this.hashChangeHandler);
+  }
+
+  /**
+   * Stop intercepting links and hash changes
+   */
+  destroy(): void {
+    document.removeEventListener('click', this.clickHandler);
+    window.removeEventListener('hashchange', this.hashChangeHandler);
+  }
+
+  /**
+   * Scroll to in-page link targets; modified clicks keep the browser's behaviour
+   */
+  private handleClick(event: MouseEvent): void {
+    if (
+      event.defaultPrevented ||
+      event.button !== 0 ||
+      event.metaKey ||
+      event.ctrlKey ||
+      event.shiftKey ||
+      event.altKey ||
+      !(event.target instanceof Element)
+    ) {
+      return;
+    }
+
+    const link = event.target.closest('a[href^="#"]');
+    const target = link && this.getTarget(link.getAttribute('href') || '');
+    if (target) {
+      event.preventDefault();
+      this.scrollTo(target);
+    }
+  }
+
+  /**
+   * Get the element a hash such as '#faq' points to
+   */
+  private getTarget(hash: string): HTMLElement | null {
+    const id = decodeURIComponent(hash.replace(/^#/, ''));
+    return id ? document.getElementById(id) : null;
+  }
+
+  /**
+   * Get the height of the fixed header covering the top of the viewport
+   * Measured on every scroll, as the header changes size once the page is scrolled
+   */
+  getHeaderOffset(): number {
+    if (!this.header) return 0;
+
+    const { position } = window.getComputedStyle(this.header);
+    return position === 'fixed' || position === 'sticky'
+      ? this.header.getBoundingClientRect().height
+      : 0;
+  }
+
+  /**
+   * Check whether the visitor asked for reduced motion
+   */
+  prefersReducedMotion(): boolean {
+    return (
+      typeof window.matchMedia === 'function' &&
+      window.matchMedia('(prefers-reduced-motion: reduce)').matches
+    );
+  }
+
+  /**
+   * Scroll to an element or selector, returning whether the target exists
+   */
+  scrollTo(target: string | Element, options: AnchorScrollOptions = {}): boolean {
+    const { offset = 0, focus = true, updateHash = true, instant = false } = options;
+    const element = typeof target === 'string' ? document.querySelector(target) : target;
+    if (!(element instanceof HTMLElement)) {
+      return false;
+    }
+
+    // Keep the nav on the target rather than the sections passed on the way
+    if (element.id) {
+      this.navigationManager?.markScrollTarget(element.id);
+    }
+
+    const top =
+      element.getBoundingClientRect().top + window.scrollY - this.getHeaderOffset() - offset;
+    window.scrollTo({
+      top: Math.max(0, top),
+      behavior: instant || this.prefersReducedMotion() ? 'instant' : 'smooth',
+    });
+
+    if (updateHash && element.id) {
+      // Replaced rather than pushed, like the scroll-spy, so anchors do not fill the history
+      const { pathname, search } = window.location;
+      try {
+        window.history.replaceState(window.history.state, '', `${pathname}${search}#${element.id}`);
+      } catch (error) {
+        // Browsers may refuse history updates (rate limits, sandboxed iframes); keep scrolling
+        console.warn('Could not update the URL hash:', error);
+      }
+    }
+    if (focus) {
+      this.focusTarget(element);
+    }
+    return true;
+  }
+
+  /**
+   * Scroll to the element in the URL hash, returning whether there was one
+   * Call once the page content is final (e.g. translations applied), as it moves the target
+   */
+  scrollToHash(): boolean {
+    const target = this.getTarget(window.location.hash);
+    return target ? this.scrollTo(target, { instant: true, updateHash: false }) : false;
+  }
+
+  /**
+   * Move focus to the target's heading, or the target itself, without scrolling again
+   */
+  private focusTarget(element: HTMLElement): void {
+    const heading = element.matches(HEADING_SELECTOR)
+      ? element
+      : element.querySelector<HTMLElement>(HEADING_SELECTOR);
+    const focusTarget = heading || element;
+
+    if (!focusTarget.matches(FOCUSABLE_SELECTOR)) {
+      focusTarget.setAttribute('tabindex', '-1');
+    }
+    focusTarget.focus({ preventScroll: true });
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Attachment Manager for LOFERSIL Landing Page
+ * Keeps the files picked for the contact form, validates them against ATTACHMENT_RULES
+ * and renders previews with a remove button. The file input is kept in sync so native
+ * (non-fetch) submission sends the same files.
+ */
+
+import { ValidationResult, validateAttachments } from '../validation.js';
+import { ATTACHMENT_RULES } from '../contactFormSchema.js';
+
+interface AttachmentManagerOptions {
+  // Translate a locale key, e.g. for the remove button label
+  translate: (key: string) => string;
+  // Called with the outcome of every change to the selection
+  onValidate: (result: ValidationResult) => void;
+}
+
+/**
+ * Format a byte count for display
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export class AttachmentManager {
+  private input: HTMLInputElement;
+  private previewList: HTMLElement | null;
+  private options: AttachmentManagerOptions;
+  private files: File[] = [];
+  private previewUrls = new Map<File, string>();
+  private readonly changeHandler = () => this.handleChange();
+
+  constructor(
+    input: HTMLInputElement,
+    previewList: HTMLElement | null,
+    options: AttachmentManagerOptions
+  ) {
+    this.input = input;
+    this.previewList = previewList;
+    this.options = options;
+
+    this.input.multiple = ATTACHMENT_RULES.maxFiles > 1;
+    this.input.accept = ATTACHMENT_RULES.allowedTypes.join(',');
+    this.input.addEventListener('change', this.changeHandler);
+  }
+
+  /**
+   * Get the selected files
+   */
+  getFiles(): File[] {
+    return [...this.files];
+  }
+
+  /**
+   * Remove a file from the selection
+   */
+  remove(file: File): void {
+    this.files = this.files.filter(selected => selected !== file);
+    this.revokePreview(file);
+    this.syncInput();
+    this.render();
+    this.options.onValidate(validateAttachments(this.files));
+  }
+
+  /**
+   * Clear the selection, e.g. after a successful submission
+   */
+  clear(): void {
+    this.files.forEach(file => this.revokePreview(file));
+    this.files = [];
+    this.syncInput();
+    this.render();
+  }
+
+  /**
+   * Re-render previews, e.g. after a language change
+   */
+  refresh(): void {
+    this.render();
+  }
+
+  /**
+   * Release object URLs and listeners
+   */
+  destroy(): void {
+    this.input.removeEventListener('change', this.changeHandler);
+    this.files.forEach(file => this.revokePreview(file));
+  }
+
+  /**
+   * Add newly picked files to the selection if the result is still valid
+   */
+  private handleChange(): void {
+    const candidate = [...this.files, ...Array.from(this.input.files || [])];
+    const result = validateAttachments(candidate);
+
+    if (result.isValid) {
+      this.files = candidate;
+    }
+
+    this.syncInput();
+    this.render();
+    this.options.onValidate(result);
+  }
+
+  /**
+   * Mirror the selection on the file input so the browser submits it natively
+   */
+  private syncInput(): void {
+    if (typeof DataTransfer === 'undefined') {
+      // Selection cannot be edited in place; only the last pick is sent natively
+      return;
+    }
+
+    try {
+      const transfer = new DataTransfer();
+      this.files.forEach(file => transfer.items.add(file));
+      this.input.files = transfer.files;
+    } catch (error) {
+      console.warn('Failed to update attachment input:', error);
+    }
+  }
+
+  /**
+   * Render one preview per selected file
+   */
+  private render(): void {
+    if (!this.previewList) return;
+
+    this.previewList.innerHTML = '';
+    this.files.forEach(file => {
+      const item = document.createElement('li');
+      item.className = 'attachment-item';
+
+      if (file.type.startsWith('image/')) {
+        const image = document.createElement('img');
+        image.className = 'attachment-thumbnail';
+        image.src = this.getPreviewUrl(file);
+        image.alt = '';
+        item.appendChild(image);
+      }
+
+      const label = document.createElement('span');
+      label.className = 'attachment-name';
+      label.textContent = `${file.name} (${formatFileSize(file.size)})`;
+
+      const removeButton = document.createElement('button');
+      removeButton.type = 'button';
+      removeButton.className = 'attachment-remove';
+      removeButton.textContent = '×';
+      removeButton.setAttribute(
+        'aria-label',
+        `${this.options.translate('contact.removeAttachment')}: ${file.name}`
+      );
+      removeButton.addEventListener('click', () => this.remove(file));
+
+      item.append(label, removeButton);
+      this.previewList?.appendChild(item);
+    });
+  }
+
+  /**
+   * Get (and cache) an object URL for an image preview
+   */
+  private getPreviewUrl(file: File): string {
+    let url = this.previewUrls.get(file);
+    if (!url) {
+      url = URL.createObjectURL(file);
+      this.previewUrls.set(file, url);
+    }
+    return url;
+  }
+
+  /**
+   * Release the object URL of a file
+   */
+  private revokePreview(file: File): void {
+    const url = this.previewUrls.get(file);
+    if (url) {
+      URL.revokeObjectURL(url);
+      this.previewUrls.delete(file);
+    }
+  }
+}
@@ -4,7 +4,10 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { ContactFormManager } from '../modules/ContactFormManager.js';
+import { ContactFormManager, createContactForm } from '../modules/ContactFormManager.js';
+import { LanguageEvents } from '../modules/LanguageEvents.js';
+import type { LanguageChangeListener } from '../modules/LanguageEvents.js';
+import type { TranslationManager } from '../modules/TranslationManager.js';
 
 describe('ContactFormManager', () => {
   let contactFormManager: ContactFormManager;
@@ -228,6 +231,298 @@ describe('ContactFormManager', () => {
     });
   });
 
+  describe('AJAX Submission', () => {
+    const fillValidForm = () => {
+      const form = document.getElementById('contact-form') as HTMLFormElement;
+      (form.querySelector('[name="name"]') as HTMLInputElement).value = 'John Doe';
+      (form.querySelector('[name="email"]') as HTMLInputElement).value = 'john@example.com';
+      (form.querySelector('[name="message"]') as HTMLTextAreaElement).value =
+        'This is a test message with enough length';
+      return form;
+    };
+
+    const submit = (form: HTMLFormElement) =>
+      form.dispatchEvent(new Event('submit', { cancelable: true }));
+
+    it('should show success only after a 2xx response', async () => {
+      let resolveFetch: (response: Response) => void = () => {};
+      global.fetch = vi.fn(
+        () => new Promise<Response>(resolve => (resolveFetch = resolve))
+      ) as unknown as typeof fetch;
+
+      const form = fillValidForm();
+      submit(form);
+
+      const successMessage = document.querySelector(mockConfig.successMessageSelector);
+      const submitButton = document.getElementById('submit-btn') as HTMLButtonElement;
+      await vi.waitFor(() => expect(global.fetch).toHaveBeenCalled());
+      expect(successMessage?.classList.contains('hidden')).toBe(true);
+      expect(submitButton.disabled).toBe(true);
+
+      resolveFetch(new Response(JSON.stringify({ ok: true }), { status: 200 }));
+
+      await vi.waitFor(() => expect(successMessage?.classList.contains('hidden')).toBe(false));
+      expect(submitButton.disabled).toBe(false);
+    });
+
+    it('should map API field errors onto fields', async () => {
+      global.fetch = vi.fn(() =>
+        Promise.resolve(
+          new Response(
+            JSON.stringify({ success: false, errors: { email: 'Email rejected by server' } }),
+            { status: 400 }
+          )
+        )
+      ) as unknown as typeof fetch;
+
+      submit(fillValidForm());
+
+      const emailError = document.getElementById('email-error');
+      await vi.waitFor(() => expect(emailError?.textContent).toBe('Email rejected by server'));
+      const errorMessage = document.querySelector(mockConfig.errorMessageSelector);
+      expect(errorMessage?.classList.contains('hidden')).toBe(false);
+    });
+
+    it('should map Formspree error arrays onto fields', async () => {
+      global.fetch = vi.fn(() =>
+        Promise.resolve(
+          new Response(
+            JSON.stringify({ errors: [{ field: 'message', message: 'Message is spam' }] }),
+            { status: 422 }
+          )
+        )
+      ) as unknown as typeof fetch;
+
+      submit(fillValidForm());
+
+      const messageError = document.getElementById('message-error');
+      await vi.waitFor(() => expect(messageError?.textContent).toBe('Message is spam'));
+    });
+
+    it('should render the topic selector and route to the topic endpoint', async () => {
+      global.fetch = vi.fn(() =>
+        Promise.resolve(new Response(JSON.stringify({ ok: true }), { status: 200 }))
+      ) as unknown as typeof fetch;
+      contactFormManager.destroy();
+      new ContactFormManager({
+        ...mockConfig,
+        topicEndpoints: { accounting: '/api/contact/accounting' },
+      });
+
+      const form = fillValidForm();
+      const topic = form.querySelector('select[name="topic"]') as HTMLSelectElement;
+      expect(topic).not.toBeNull();
+      topic.value = 'accounting';
+      submit(form);
+
+      await vi.waitFor(() => expect(global.fetch).toHaveBeenCalled());
+      expect(vi.mocked(global.fetch).mock.calls[0][0]).toBe('/api/contact/accounting');
+    });
+
+    it('should send the default form and its topic to the contact API', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      global.fetch = vi.fn((url: string) =>
+        Promise.resolve(
+          url === '/api/contact'
+            ? new Response(JSON.stringify({ ok: true }), { status: 200 })
+            : new Response('', { status: 404 })
+        )
+      ) as unknown as typeof fetch;
+      contactFormManager.destroy();
+      const form = fillValidForm();
+      form.id = 'contact-form-element';
+      form.action = 'https://formspree.io/f/xzddbybz';
+      document.getElementById('submit-btn')!.id = 'contact-submit';
+      const manager = createContactForm();
+
+      (form.querySelector('select[name="topic"]') as HTMLSelectElement).value = 'accounting';
+      vi.setSystemTime(Date.now() + 5000);
+      submit(form);
+
+      await vi.waitFor(() =>
+        expect(vi.mocked(global.fetch).mock.calls.map(([url]) => url)).toContain('/api/contact')
+      );
+      const [, init] = vi.mocked(global.fetch).mock.calls.find(([url]) => url === '/api/contact')!;
+      expect(JSON.parse(init?.body as string).topic).toBe('accounting');
+      manager.destroy();
+      vi.useRealTimers();
+    });
+
+    it('should reject submissions made too soon after render', () => {
+      global.fetch = vi.fn() as unknown as typeof fetch;
+      contactFormManager.destroy();
+      new ContactFormManager({ ...mockConfig, minFillTime: 60000 });
+
+      submit(fillValidForm());
+
+      const errorMessage = document.querySelector(mockConfig.errorMessageSelector);
+      expect(errorMessage?.classList.contains('hidden')).toBe(false);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should show the rate limit message when the API rejects with 429', async () => {
+      global.fetch = vi.fn(() =>
+        Promise.resolve(new Response(JSON.stringify({ success: false }), { status: 429 }))
+      ) as unknown as typeof fetch;
+
+      submit(fillValidForm());
+
+      const errorMessage = document.querySelector(mockConfig.errorMessageSelector);
+      await vi.waitFor(() =>
+        expect(errorMessage?.textContent).toContain('Enviou demasiadas mensagens')
+      );
+    });
+
+    it('should send attachments as multipart data', async () => {
+      global.fetch = vi.fn(() =>
+        Promise.resolve(new Response(JSON.stringify({ ok: true }), { status: 200 }))
+      ) as unknown as typeof fetch;
+      const form = fillValidForm();
+      form.insertAdjacentHTML(
+        'beforeend',
+        '<input type="file" name="attachments" /><ul id="attachments-preview"></ul>'
+      );
+      contactFormManager.destroy();
+      new ContactFormManager(mockConfig);
+
+      const input = form.querySelector('[name="attachments"]') as HTMLInputElement;
+      const file = new File(['%PDF-1.4'], 'orcamento.pdf', { type: 'application/pdf' });
+      Object.defineProperty(input, 'files', { value: [file], configurable: true });
+      input.dispatchEvent(new Event('change'));
+
+      expect(document.querySelectorAll('#attachments-preview li')).toHaveLength(1);
+
+      submit(form);
+
+      await vi.waitFor(() => expect(global.fetch).toHaveBeenCalled());
+      const body = vi.mocked(global.fetch).mock.calls[0][1]?.body as FormData;
+      expect(body).toBeInstanceOf(FormData);
+      expect((body.get('attachments') as File).name).toBe('orcamento.pdf');
+    });
+
+    it('should show the error message when the network fails', async () => {
+      global.fetch = vi.fn(() => Promise.reject(new TypeError('Failed to fetch')));
+
+      submit(fillValidForm());
+
+      const errorMessage = document.querySelector(mockConfig.errorMessageSelector);
+      await vi.waitFor(() => expect(errorMessage?.classList.contains('hidden')).toBe(false));
+      const successMessage = document.querySelector(mockConfig.successMessageSelector);
+      expect(successMessage?.classList.contains('hidden')).toBe(true);
+    });
+  });
+
+  describe('Draft Autosave', () => {
+    const draftConfig = { ...mockConfig, draftStorageKey: 'test-draft', draftDelay: 0 };
+
+    beforeEach(() => {
+      sessionStorage.clear();
+      contactFormManager.destroy();
+    });
+
+    it('should save drafts without sensitive fields and offer to restore them', async () => {
+      const manager = new ContactFormManager(draftConfig);
+      const form = document.getElementById('contact-form') as HTMLFormElement;
+      (form.querySelector('[name="name"]') as HTMLInputElement).value = 'John Doe';
+      (form.querySelector('[name="email"]') as HTMLInputElement).value = 'john@example.com';
+      const message = form.querySelector('[name="message"]') as HTMLTextAreaElement;
+      message.value = 'A long message that should survive a reload';
+      message.dispatchEvent(new Event('input', { bubbles: true }));
+
+      await vi.waitFor(() => expect(sessionStorage.getItem('test-draft')).not.toBeNull());
+      const saved = JSON.parse(sessionStorage.getItem('test-draft') || '{}');
+      expect(saved.values.message).toBe('A long message that should survive a reload');
+      expect(saved.values.name).toBeUndefined();
+      expect(saved.values.email).toBeUndefined();
+      expect(saved.values.website).toBeUndefined();
+
+      manager.destroy();
+      form.reset();
+      new ContactFormManager(draftConfig);
+
+      const restoreButton = form.querySelector('.draft-prompt .btn-primary') as HTMLButtonElement;
+      restoreButton.click();
+
+      expect(message.value).toBe('A long message that should survive a reload');
+      expect(form.querySelector('.draft-prompt')).toBeNull();
+    });
+
+    it('should clear the draft after a successful submission', async () => {
+      global.fetch = vi.fn(() =>
+        Promise.resolve(new Response(JSON.stringify({ ok: true }), { status: 200 }))
+      ) as unknown as typeof fetch;
+      sessionStorage.setItem(
+        'test-draft',
+        JSON.stringify({ values: { message: 'Old draft' }, savedAt: Date.now() })
+      );
+      new ContactFormManager(draftConfig);
+      const form = document.getElementById('contact-form') as HTMLFormElement;
+      (form.querySelector('.draft-prompt .btn-secondary') as HTMLButtonElement).click();
+      (form.querySelector('[name="name"]') as HTMLInputElement).value = 'John Doe';
+      (form.querySelector('[name="email"]') as HTMLInputElement).value = 'john@example.com';
+      (form.querySelector('[name="message"]') as HTMLTextAreaElement).value =
+        'This is a test message with enough length';
+
+      form.dispatchEvent(new Event('submit', { cancelable: true }));
+
+      await vi.waitFor(() => expect(global.fetch).toHaveBeenCalled());
+      await vi.waitFor(() => expect(sessionStorage.getItem('test-draft')).toBeNull());
+    });
+  });
+
+  describe('Localized Messages', () => {
+    const english: Record<string, string> = {
+      'contact.validation.name.required': 'Name is required',
+    };
+
+    let events: LanguageEvents;
+
+    beforeEach(() => {
+      events = new LanguageEvents();
+    });
+
+    const createTranslationManager = (messages: Record<string, string>) =>
+      ({
+        translate: (key: string) => messages[key] || key,
+        onLanguageChange: (listener: LanguageChangeListener) => events.subscribe(listener),
+        getTranslations: () => ({
+          contact: {
+            validation: { name: { required: messages['contact.validation.name.required'] } },
+          },
+        }),
+      }) as unknown as TranslationManager;
+
+    it('should use translated validation messages', () => {
+      const manager = new ContactFormManager(mockConfig, createTranslationManager(english));
+      const nameInput = document.getElementById('name') as HTMLInputElement;
+      nameInput.value = '';
+      nameInput.dispatchEvent(new Event('blur'));
+
+      expect(document.getElementById('name-error')?.textContent).toBe('Name is required');
+      manager.destroy();
+    });
+
+    it('should re-render visible errors on language change', () => {
+      const messages: Record<string, string> = {};
+      const manager = new ContactFormManager(mockConfig, createTranslationManager(messages));
+      const nameInput = document.getElementById('name') as HTMLInputElement;
+      nameInput.value = '';
+      nameInput.dispatchEvent(new Event('blur'));
+      expect(document.getElementById('name-error')?.textContent).toContain('obrigatório');
+
+      Object.assign(messages, english);
+      events.emit({
+        language: 'en',
+        previousLanguage: 'pt',
+        locale: 'en-US',
+        translate: key => key,
+      });
+
+      expect(document.getElementById('name-error')?.textContent).toBe('Name is required');
+      manager.destroy();
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle missing form elements gracefully', () => {
       // Remove submit button
@@ -1,17 +1,29 @@
 /**
  * LOFERSIL Landing Page - Contact Form Module
- * Handles contact form validation and user feedback
+ * Handles contact form validation, submission and user feedback
  */
 
 import {
   ContactFormValidator,
   ContactRequest,
-  validateName,
-  validateEmail,
-  validatePhone,
-  validateMessage,
+  ValidationMessages,
+  getValidationMessage,
+  resolveValidationMessages,
+  sanitizeContactData,
+  validateAttachments,
+  validateNamedField,
   validateContactForm,
 } from '../validation.js';
+import { ATTACHMENT_RULES, CONTACT_FORM_SCHEMA, ContactFieldSchema } from '../contactFormSchema.js';
+import { MessageParams, formatMessage } from '../messageFormat.js';
+import { ContactOutbox, OutboxEntry, OutboxReplayStatus } from './ContactOutbox.js';
+import { SubmissionThrottle, SubmissionThrottleConfig } from './SubmissionThrottle.js';
+import { ProofOfWorkSolver } from './ProofOfWorkSolver.js';
+import { AttachmentManager } from './AttachmentManager.js';
+import { FormDraft } from './FormDraft.js';
+import { debounce } from './Utils.js';
+import type { ProofOfWorkSolution } from '../proofOfWork.js';
+import type { TranslationManager } from './TranslationManager.js';
 
 // Contact form configuration
 interface ContactFormConfig {
@@ -19,8 +31,79 @@ interface ContactFormConfig {
   submitButtonSelector: string;
   successMessageSelector: string;
   errorMessageSelector: string;
+  progressSelector?: string;
+  liveRegionSelector?: string;
+  submissionMode?: 'native' | 'ajax';
+  endpoint?: string;
+  // Per-topic endpoints for backends without topic routing, e.g. one Formspree form per topic;
+  // /api/contact routes topics itself
+  topicEndpoints?: Record<string, string>;
+  requestTimeout?: number;
+  enableOfflineOutbox?: boolean;
+  // Persistent per-browser limit on submissions; disabled when omitted
+  throttle?: SubmissionThrottleConfig;
+  // Submissions made faster than this after the form was rendered are treated as bots (ms)
+  minFillTime?: number;
+  // Endpoint issuing proof-of-work challenges; disabled when omitted
+  challengeEndpoint?: string;
+  // Longest time a submission waits for the challenge to be solved (ms)
+  challengeTimeout?: number;
+  // sessionStorage key for autosaved drafts; drafts are disabled when omitted
+  draftStorageKey?: string;
+  // Delay between the last keystroke and the draft being saved (ms)
+  draftDelay?: number;
 }
 
+// Outcome of a fetch-based submission
+interface SubmissionResult {
+  ok: boolean;
+  status: number;
+  fieldErrors: Record<string, string>;
+}
+
+// Message shown in the success or error element, kept as keys so it can be re-translated
+interface VisibleMessage {
+  type: 'success' | 'error';
+  keys: string[];
+  params?: MessageParams;
+}
+
+const DEFAULT_REQUEST_TIMEOUT = 15000;
+const DEFAULT_CHALLENGE_TIMEOUT = 10000;
+const DEFAULT_DRAFT_DELAY = 500;
+const VALIDATION_KEY_PREFIX = 'contact.validation.';
+
+// Portuguese fallbacks used until translations are loaded
+const FALLBACK_MESSAGES: Record<string, string> = {
+  'contact.successMessage':
+    'Obrigado, {name}! A sua mensagem foi enviada com sucesso. Entraremos em contacto brevemente.',
+  'contact.successNotice': 'Mensagem enviada com sucesso! Entraremos em contacto brevemente.',
+  'contact.errorMessage': 'Ocorreu um erro ao enviar a mensagem. Por favor, tente novamente.',
+  'contact.validationError': 'Erro de validação. Por favor, tente novamente.',
+  'contact.formDataError': 'Não foi possível obter os dados do formulário',
+  'contact.pendingMessage':
+    'Está sem ligação. A sua mensagem foi guardada e será enviada quando voltar a estar online.',
+  'contact.outboxSentMessage': 'A sua mensagem pendente foi enviada com sucesso.',
+  'contact.tooFastMessage':
+    'O formulário foi enviado demasiado depressa. Reveja a sua mensagem e tente novamente.',
+  'contact.rateLimitMessage':
+    'Enviou demasiadas mensagens. Por favor, aguarde alguns minutos antes de tentar novamente.',
+  'contact.duplicateMessage': 'Esta mensagem já foi enviada.',
+  'contact.removeAttachment': 'Remover anexo',
+  'contact.draftPrompt': 'Tem uma mensagem por enviar. Quer recuperá-la?',
+  'contact.draftRestore': 'Recuperar',
+  'contact.draftDiscard': 'Descartar',
+  'contact.challengeMessage':
+    'Não foi possível verificar o envio da mensagem. Por favor, tente novamente.',
+};
+
+// HTTP statuses the contact API uses to reject throttled submissions
+const STATUS_MESSAGES: Record<number, string> = {
+  403: 'contact.challengeMessage',
+  409: 'contact.duplicateMessage',
+  429: 'contact.rateLimitMessage',
+};
+
 /**
  * Contact Form Manager
  * Handles form validation and user feedback
@@ -31,13 +114,59 @@ export class ContactFormManager {
   private formElement: HTMLFormElement | null = null;
   private submitButton: HTMLButtonElement | null = null;
   private isSubmitting = false;
+  private translationManager?: TranslationManager;
+  private visibleMessage: VisibleMessage | null = null;
+  private outbox: ContactOutbox | null = null;
+  private throttle: SubmissionThrottle | null = null;
+  private proofOfWork: ProofOfWorkSolver | null = null;
+  private attachments: AttachmentManager | null = null;
+  private draft: FormDraft | null = null;
+  private draftPrompt: HTMLElement | null = null;
+  private readonly saveDraftSoon: () => void;
+  private renderedAt = 0;
+  private unsubscribeLanguage: (() => void) | null = null;
+  private readonly submitHandler = (event: Event) => void this.handleSubmit(event);
+  private readonly onlineHandler = () => void this.replayOutbox();
+  private readonly serviceWorkerMessageHandler = (event: MessageEvent) =>
+    this.handleServiceWorkerMessage(event);
+  // Solve the challenge while the visitor fills in the form
+  private readonly focusHandler = () => this.proofOfWork?.start();
+  private readonly draftInputHandler = () => this.saveDraftSoon();
 
-  constructor(config: ContactFormConfig) {
+  constructor(config: ContactFormConfig, translationManager?: TranslationManager) {
     this.config = config;
+    this.translationManager = translationManager;
+    this.throttle = config.throttle ? new SubmissionThrottle(config.throttle) : null;
+    this.proofOfWork = config.challengeEndpoint
+      ? new ProofOfWorkSolver(config.challengeEndpoint)
+      : null;
+    this.saveDraftSoon = debounce(() => this.saveDraft(), config.draftDelay ?? DEFAULT_DRAFT_DELAY);
     this.validator = new ContactFormValidator(config.formSelector);
+    this.validator.setMessages(this.getValidationMessages());
     this.initializeForm();
   }
 
+  /**
+   * Translate a message key, falling back to the built-in Portuguese text
+   */
+  private t(key: string, params?: MessageParams): string {
+    const translation = this.translationManager?.translate(key, params);
+    if (translation && translation !== key) {
+      return translation;
+    }
+    if (key.startsWith(VALIDATION_KEY_PREFIX)) {
+      return getValidationMessage(key.slice(VALIDATION_KEY_PREFIX.length));
+    }
+    return FALLBACK_MESSAGES[key] ? formatMessage(FALLBACK_MESSAGES[key], params) : key;
+  }
+
+  /**
+   * Get validation messages for the current language
+   */
+  private getValidationMessages(): ValidationMessages {
+    return resolveValidationMessages(this.translationManager?.getTranslations());
+  }
+
   /**
    * Initialize the contact form
    */
@@ -68,23 +197,77 @@ export class ContactFormManager {
       errorElement.setAttribute('aria-hidden', 'true');
     }
 
-    // Set up real-time validation only (form submits natively to Formspree)
     this.setupRealtimeValidation();
+    this.setupAttachments();
+    this.setupDrafts();
+    this.renderedAt = Date.now();
+    this.formElement.addEventListener('submit', this.submitHandler);
+    this.formElement.addEventListener('focusin', this.focusHandler);
+    this.unsubscribeLanguage =
+      this.translationManager?.onLanguageChange(() => this.refreshMessages()) ?? null;
+    this.setupOfflineOutbox();
   }
 
   /**
-   * Set up real-time validation feedback
+   * Re-render messages already on screen in the current language
+   */
+  private refreshMessages(): void {
+    const messages = this.getValidationMessages();
+    this.validator.setMessages(messages);
+
+    this.formElement?.querySelectorAll<HTMLElement>('[data-error-key]').forEach(element => {
+      element.textContent = getValidationMessage(element.dataset.errorKey || '', messages);
+    });
+    this.attachments?.refresh();
+
+    if (this.visibleMessage) {
+      const selector =
+        this.visibleMessage.type === 'success'
+          ? this.config.successMessageSelector
+          : this.config.errorMessageSelector;
+      const element = document.querySelector(selector);
+      if (element) {
+        const { keys, params } = this.visibleMessage;
+        element.textContent = keys.map(key => this.t(key, params)).join('. ');
+      }
+    }
+  }
+
+  /**
+   * Set up the offline outbox and listen for replay results
+   */
+  private setupOfflineOutbox(): void {
+    if (this.config.enableOfflineOutbox === false || !ContactOutbox.isSupported()) {
+      return;
+    }
+
+    this.outbox = new ContactOutbox();
+    window.addEventListener('online', this.onlineHandler);
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.addEventListener('message', this.serviceWorkerMessageHandler);
+    }
+
+    // Flush anything left over from a previous visit
+    if (navigator.onLine) {
+      void this.replayOutbox();
+    }
+  }
+
+  /**
+   * Set up real-time validation feedback for every schema field
    */
   private setupRealtimeValidation(): void {
     if (!this.formElement) return;
 
-    const fields = ['name', 'email', 'phone', 'message'];
+    CONTACT_FORM_SCHEMA.forEach(schema => {
+      const fieldName = schema.name;
+      const field = this.getFieldElement(fieldName) || this.renderField(schema);
+      if (!field) return;
 
-    fields.forEach(fieldName => {
-      const field = this.formElement?.querySelector(`[name="${fieldName}"]`) as HTMLInputElement;
+      this.applyFieldSchema(field, schema);
       const errorElement = document.getElementById(`${fieldName}-error`);
 
-      if (field && errorElement) {
+      if (errorElement) {
         // Validate on blur
         field.addEventListener('blur', () => {
           this.validateField(fieldName, errorElement);
@@ -93,49 +276,296 @@ export class ContactFormManager {
         // Clear error on input
         field.addEventListener('input', () => {
           if (field.classList.contains('error')) {
-            field.classList.remove('error');
-            errorElement.classList.remove('show');
-            errorElement.textContent = '';
+            this.clearFieldError(fieldName);
           }
         });
       }
     });
   }
 
+  /**
+   * Set up attachment previews and validation when the form has a file input
+   */
+  private setupAttachments(): void {
+    const input = this.formElement?.querySelector<HTMLInputElement>(
+      `input[type="file"][name="${ATTACHMENT_RULES.name}"]`
+    );
+    if (!input) return;
+
+    this.attachments = new AttachmentManager(
+      input,
+      document.getElementById(`${ATTACHMENT_RULES.name}-preview`),
+      {
+        translate: key => this.t(key),
+        onValidate: result => {
+          if (result.isValid) {
+            this.clearFieldError(ATTACHMENT_RULES.name);
+          } else {
+            this.showFieldError(ATTACHMENT_RULES.name, result.error || '', result.errorKey);
+          }
+        },
+      }
+    );
+  }
+
+  /**
+   * Autosave drafts and offer to restore one left from earlier in this tab
+   */
+  private setupDrafts(): void {
+    if (!this.config.draftStorageKey || !this.formElement) return;
+
+    this.draft = new FormDraft(this.config.draftStorageKey);
+    this.formElement.addEventListener('input', this.draftInputHandler);
+    this.formElement.addEventListener('change', this.draftInputHandler);
+
+    const snapshot = this.draft.load();
+    if (snapshot) {
+      this.showDraftPrompt(snapshot.values);
+    }
+  }
+
+  /**
+   * Collect the draft values: schema fields except sensitive ones and untouched selects
+   * The honeypot and attachments are not schema fields and are never saved
+   */
+  private getDraftValues(): Record<string, string> {
+    const values: Record<string, string> = {};
+
+    CONTACT_FORM_SCHEMA.filter(schema => !schema.sensitive).forEach(schema => {
+      const field = this.getFieldElement(schema.name);
+      if (!field) return;
+      if (field instanceof HTMLSelectElement && field.selectedIndex <= 0) return;
+      values[schema.name] = field.value;
+    });
+
+    return values;
+  }
+
+  /**
+   * Save the current draft, unless a restore prompt is still waiting for an answer
+   */
+  private saveDraft(): void {
+    if (!this.draft || this.draftPrompt) return;
+    this.draft.save(this.getDraftValues());
+  }
+
+  /**
+   * Ask the visitor whether to restore a saved draft
+   */
+  private showDraftPrompt(values: Record<string, string>): void {
+    const prompt = document.createElement('div');
+    prompt.className = 'draft-prompt';
+    prompt.setAttribute('role', 'status');
+
+    const text = document.createElement('p');
+    text.dataset.translate = 'contact.draftPrompt';
+    text.textContent = this.t('contact.draftPrompt');
+
+    const restoreButton = document.createElement('button');
+    restoreButton.type = 'button';
+    restoreButton.className = 'btn btn-primary';
+    restoreButton.dataset.translate = 'contact.draftRestore';
+    restoreButton.textContent = this.t('contact.draftRestore');
+    restoreButton.addEventListener('click', () => {
+      this.restoreDraft(values);
+      this.dismissDraftPrompt();
+    });
+
+    const discardButton = document.createElement('button');
+    discardButton.type = 'button';
+    discardButton.className = 'btn btn-secondary';
+    discardButton.dataset.translate = 'contact.draftDiscard';
+    discardButton.textContent = this.t('contact.draftDiscard');
+    discardButton.addEventListener('click', () => {
+      this.draft?.clear();
+      this.dismissDraftPrompt();
+    });
+
+    prompt.append(text, restoreButton, discardButton);
+    this.formElement?.prepend(prompt);
+    this.draftPrompt = prompt;
+  }
+
+  /**
+   * Fill the form from a saved draft
+   */
+  private restoreDraft(values: Record<string, string>): void {
+    CONTACT_FORM_SCHEMA.filter(schema => !schema.sensitive).forEach(schema => {
+      const field = this.getFieldElement(schema.name);
+      if (field && typeof values[schema.name] === 'string') {
+        field.value = values[schema.name];
+      }
+    });
+  }
+
+  /**
+   * Remove the restore prompt and resume autosaving
+   */
+  private dismissDraftPrompt(): void {
+    this.draftPrompt?.remove();
+    this.draftPrompt = null;
+    this.saveDraft();
+  }
+
+  /**
+   * Get the form control of a field
+   */
+  private getFieldElement(fieldName: string): HTMLInputElement | HTMLTextAreaElement | null {
+    return this.formElement?.querySelector(`[name="${fieldName}"]`) || null;
+  }
+
+  /**
+   * Mirror the schema constraints on the form control
+   */
+  private applyFieldSchema(
+    field: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement,
+    schema: ContactFieldSchema
+  ): void {
+    field.required = schema.required;
+    field.setAttribute('aria-required', String(schema.required));
+    if (!(field instanceof HTMLSelectElement)) {
+      field.maxLength = schema.maxLength;
+    }
+    if (schema.autocomplete) {
+      field.setAttribute('autocomplete', schema.autocomplete);
+    }
+  }
+
+  /**
+   * Translate a key, using the given fallback until translations are loaded
+   */
+  private translateOr(key: string, fallback: string): string {
+    const text = this.translationManager?.translate(key);
+    return text && text !== key ? text : fallback;
+  }
+
+  /**
+   * Render a schema field that is missing from the markup
+   * It is placed before the next schema field present in the form, or before the honeypot
+   */
+  private renderField(
+    schema: ContactFieldSchema
+  ): HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement | null {
+    if (!this.formElement) return null;
+
+    const id = `contact-${schema.name}`;
+    const group = document.createElement('div');
+    group.className = 'form-group';
+
+    const label = document.createElement('label');
+    label.htmlFor = id;
+    label.className = 'form-label';
+    label.dataset.translate = schema.labelKey;
+    label.textContent = this.translateOr(schema.labelKey, schema.label);
+
+    let field: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+    if (schema.type === 'textarea') {
+      field = document.createElement('textarea');
+      field.className = 'form-textarea';
+      field.rows = 5;
+    } else if (schema.type === 'select') {
+      field = document.createElement('select');
+      field.className = 'form-input';
+      (schema.options || []).forEach(option => {
+        const element = document.createElement('option');
+        element.value = option.value;
+        element.dataset.translate = option.labelKey;
+        element.textContent = this.translateOr(option.labelKey, option.label);
+        field.appendChild(element);
+      });
+    } else {
+      field = document.createElement('input');
+      field.type = schema.type;
+      field.className = 'form-input';
+    }
+    field.id = id;
+    field.name = schema.name;
+    field.setAttribute('aria-describedby', `${schema.name}-error`);
+
+    const error = document.createElement('div');
+    error.id = `${schema.name}-error`;
+    error.className = 'form-error';
+    error.setAttribute('role', 'alert');
+    error.setAttribute('aria-live', 'polite');
+
+    group.append(label, field, error);
+    this.formElement.insertBefore(group, this.findInsertionPoint(schema.name));
+
+    return field;
+  }
+
+  /**
+   * Find the element a rendered field should be inserted before, keeping schema order
+   */
+  private findInsertionPoint(fieldName: string): Element | null {
+    const index = CONTACT_FORM_SCHEMA.findIndex(field => field.name === fieldName);
+
+    for (const next of CONTACT_FORM_SCHEMA.slice(index + 1)) {
+      const group = this.getFieldElement(next.name)?.closest('.form-group');
+      if (group?.parentElement === this.formElement) {
+        return group;
+      }
+    }
+
+    const honeypot = this.formElement?.querySelector('.honeypot-field');
+    return honeypot?.parentElement === this.formElement ? honeypot : null;
+  }
+
   /**
    * Validate a single field and display error
    */
   private validateField(fieldName: string, errorElement: HTMLElement): void {
-    const field = this.formElement?.querySelector(`[name="${fieldName}"]`) as HTMLInputElement;
+    const field = this.getFieldElement(fieldName);
     if (!field) return;
 
-    let result: { isValid: boolean; error?: string };
-
-    switch (fieldName) {
-      case 'name':
-        result = validateName(field.value);
-        break;
-      case 'email':
-        result = validateEmail(field.value);
-        break;
-      case 'phone':
-        result = validatePhone(field.value);
-        break;
-      case 'message':
-        result = validateMessage(field.value);
-        break;
-      default:
-        return;
-    }
+    const result = validateNamedField(fieldName, field.value, this.getValidationMessages());
 
     if (!result.isValid) {
-      field.classList.add('error');
-      errorElement.textContent = result.error || '';
-      errorElement.classList.add('show');
+      this.showFieldError(fieldName, result.error || '', result.errorKey, errorElement);
     } else {
-      field.classList.remove('error');
-      errorElement.classList.remove('show');
-      errorElement.textContent = '';
+      this.clearFieldError(fieldName, errorElement);
+    }
+  }
+
+  /**
+   * Mark a field as invalid and show its inline error
+   */
+  private showFieldError(
+    fieldName: string,
+    message: string,
+    errorKey?: string,
+    errorElement?: HTMLElement
+  ): void {
+    const field = this.formElement?.querySelector(`[name="${fieldName}"]`) as HTMLElement;
+    const target = errorElement || document.getElementById(`${fieldName}-error`);
+
+    field?.classList.add('error');
+    field?.setAttribute('aria-invalid', 'true');
+    if (target) {
+      target.textContent = message;
+      target.classList.add('show');
+      // Keep the key so the message can be re-translated on language change
+      if (errorKey) {
+        target.dataset.errorKey = errorKey;
+      } else {
+        delete target.dataset.errorKey;
+      }
+    }
+  }
+
+  /**
+   * Clear the inline error of a field
+   */
+  private clearFieldError(fieldName: string, errorElement?: HTMLElement): void {
+    const field = this.formElement?.querySelector(`[name="${fieldName}"]`) as HTMLElement;
+    const target = errorElement || document.getElementById(`${fieldName}-error`);
+
+    field?.classList.remove('error');
+    field?.removeAttribute('aria-invalid');
+    if (target) {
+      target.classList.remove('show');
+      target.textContent = '';
+      delete target.dataset.errorKey;
     }
   }
 
@@ -152,18 +582,19 @@ export class ContactFormManager {
     return !honeypotField.value || honeypotField.value.trim() === '';
   }
 
+  /**
+   * Check whether the form was submitted implausibly soon after it was rendered
+   */
+  private isFilledTooFast(): boolean {
+    if (!this.config.minFillTime) return false;
+    return Date.now() - this.renderedAt < this.config.minFillTime;
+  }
+
   /**
    * Sanitize form data using DOMPurify
    */
   private sanitizeFormData(data: ContactRequest): ContactRequest {
-    const sanitized = {
-      name: window.DOMPurify.sanitize(data.name)?.substring(0, 100) || '',
-      email: window.DOMPurify.sanitize(data.email)?.substring(0, 254) || '',
-      phone: data.phone ? window.DOMPurify.sanitize(data.phone)?.substring(0, 20) : undefined,
-      message: window.DOMPurify.sanitize(data.message)?.substring(0, 2000) || '',
-    };
-
-    return sanitized;
+    return sanitizeContactData(data, input => window.DOMPurify.sanitize(input));
   }
 
   /**
@@ -178,35 +609,52 @@ export class ContactFormManager {
 
     // Check honeypot for bot protection
     if (!this.checkHoneypot()) {
-      this.showErrorMessage('Erro de validação. Por favor, tente novamente.');
+      this.showTranslatedMessage('error', ['contact.validationError']);
+      return;
+    }
+
+    // Humans take more than a couple of seconds to fill in the form
+    if (this.isFilledTooFast()) {
+      this.showTranslatedMessage('error', ['contact.tooFastMessage']);
       return;
     }
 
     // Get form data
     const formData = this.validator.getFormData();
     if (!formData) {
-      this.showErrorMessage('Não foi possível obter os dados do formulário');
+      this.showTranslatedMessage('error', ['contact.formDataError']);
       return;
     }
 
     // Validate form
-    const validationResult = validateContactForm(formData);
-
-    if (!validationResult.isValid) {
-      const errorMessages = Object.values(validationResult.errors);
-      if (errorMessages.length > 0) {
-        const message = errorMessages.join('. ');
-        this.showErrorMessage(message);
-
-        // Focus on first invalid field
-        const firstInvalidField = Object.keys(validationResult.errors)[0];
-        const fieldElement = this.formElement?.querySelector(
-          `[name="${firstInvalidField}"]`
-        ) as HTMLElement;
-        if (fieldElement) {
-          fieldElement.focus();
-          fieldElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
-        }
+    const messages = this.getValidationMessages();
+    const validationResult = validateContactForm(formData, messages);
+    const invalidFields = Object.values(validationResult.fieldResults).filter(
+      result => !result.isValid
+    );
+
+    const files = this.attachments?.getFiles() || [];
+    const attachmentResult = validateAttachments(files, messages);
+    if (!attachmentResult.isValid) {
+      invalidFields.push({ field: ATTACHMENT_RULES.name, ...attachmentResult });
+    }
+
+    if (invalidFields.length > 0) {
+      this.showTranslatedMessage(
+        'error',
+        invalidFields.map(result => `${VALIDATION_KEY_PREFIX}${result.errorKey}`)
+      );
+      invalidFields.forEach(result => {
+        this.showFieldError(result.field, result.error || '', result.errorKey);
+      });
+
+      // Focus on first invalid field
+      const fieldElement = this.formElement?.querySelector(
+        `[name="${invalidFields[0].field}"]`
+      ) as HTMLElement;
+      if (fieldElement) {
+        fieldElement.focus();
+        fieldElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
       }
       return;
     }
@@ -214,13 +662,321 @@ export class ContactFormManager {
     // Sanitize inputs
     const sanitizedData = this.sanitizeFormData(formData);
 
-    // Allow form to submit natively to Formspree
-    // The form will submit via its action attribute in HTML
-    this.formElement?.submit();
+    const endpoint = this.getEndpoint(sanitizedData.topic);
+    const fingerprint = SubmissionThrottle.fingerprint(JSON.stringify(sanitizedData));
+
+    const verdict = this.throttle?.check(fingerprint) || 'allowed';
+    if (verdict !== 'allowed') {
+      this.showTranslatedMessage('error', [
+        verdict === 'duplicate' ? 'contact.duplicateMessage' : 'contact.rateLimitMessage',
+      ]);
+      return;
+    }
+
+    if (this.config.submissionMode === 'native') {
+      // Hand over to the browser; the page navigates to the form action
+      this.formElement?.setAttribute('action', endpoint);
+      if (files.length > 0) {
+        // The file input is kept in sync with the selection by AttachmentManager
+        this.formElement?.setAttribute('enctype', 'multipart/form-data');
+      }
+      this.throttle?.record(fingerprint);
+      this.formElement?.submit();
+      return;
+    }
+
+    this.setSubmittingState(true);
+    this.updateProgress(this.getLoadingText());
+
+    let body: string | FormData | undefined;
+    try {
+      // Inside the try so a failing challenge request still resets the form state
+      const proof = await this.proofOfWork?.getSolution(
+        this.config.challengeTimeout ?? DEFAULT_CHALLENGE_TIMEOUT
+      );
+      body =
+        files.length > 0
+          ? this.buildMultipartBody(sanitizedData, proof, files)
+          : this.buildRequestBody(sanitizedData, proof);
+
+      const result = await this.submitViaFetch(endpoint, body);
+
+      if (result.ok) {
+        this.throttle?.record(fingerprint);
+        this.draft?.clear();
+        this.showTranslatedMessage('success', ['contact.successMessage'], {
+          name: sanitizedData.name || '',
+        });
+        this.resetForm();
+      } else {
+        Object.entries(result.fieldErrors).forEach(([fieldName, message]) => {
+          this.showFieldError(fieldName, message);
+        });
+        this.showTranslatedMessage('error', [
+          STATUS_MESSAGES[result.status] || 'contact.errorMessage',
+        ]);
+        this.focusFirstInvalidField(Object.keys(result.fieldErrors));
+      }
+    } catch (error) {
+      // Only JSON bodies can be queued; attachments need a live connection
+      if (
+        typeof body === 'string' &&
+        this.isOfflineError(error) &&
+        (await this.queueSubmission(endpoint, body))
+      ) {
+        this.throttle?.record(fingerprint);
+        this.showTranslatedMessage('success', ['contact.pendingMessage']);
+        this.resetForm();
+      } else {
+        console.error('Contact form submission failed:', error);
+        this.showTranslatedMessage('error', ['contact.errorMessage']);
+      }
+    } finally {
+      this.setSubmittingState(false);
+      this.updateProgress('');
+    }
+  }
+
+  /**
+   * Resolve the endpoint submissions are sent to, routing by topic when configured
+   * Falls back to the form's action, which native (no-JavaScript) submissions use
+   */
+  private getEndpoint(topic?: string): string {
+    return (
+      (topic && this.config.topicEndpoints?.[topic]) ||
+      this.config.endpoint ||
+      this.formElement?.getAttribute('action') ||
+      '/api/contact'
+    );
+  }
+
+  /**
+   * Serialize sanitized form data, including the honeypot and proof of work for server-side checks
+   */
+  private buildRequestBody(data: ContactRequest, proof?: ProofOfWorkSolution | null): string {
+    const honeypot = this.formElement?.querySelector('[name="website"]') as HTMLInputElement;
+    return JSON.stringify({ ...data, website: honeypot?.value || '', ...(proof ? { proof } : {}) });
+  }
+
+  /**
+   * Build a multipart body for submissions with attachments
+   */
+  private buildMultipartBody(
+    data: ContactRequest,
+    proof: ProofOfWorkSolution | null | undefined,
+    files: File[]
+  ): FormData {
+    const body = new FormData();
+    Object.entries(data).forEach(([name, value]) => {
+      if (value !== undefined) {
+        body.append(name, value);
+      }
+    });
+
+    const honeypot = this.formElement?.querySelector('[name="website"]') as HTMLInputElement;
+    body.append('website', honeypot?.value || '');
+    if (proof) {
+      body.append('proof', JSON.stringify(proof));
+    }
+    files.forEach(file => body.append(ATTACHMENT_RULES.name, file, file.name));
+
+    return body;
+  }
+
+  /**
+   * Submit form data with fetch and interpret the response
+   */
+  private async submitViaFetch(
+    endpoint: string,
+    body: string | FormData
+  ): Promise<SubmissionResult> {
+    const controller = new AbortController();
+    const timeout = setTimeout(
+      () => controller.abort(),
+      this.config.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT
+    );
+
+    try {
+      // The browser sets the multipart boundary itself for FormData bodies
+      const headers: Record<string, string> =
+        typeof body === 'string'
+          ? { 'Content-Type': 'application/json', Accept: 'application/json' }
+          : { Accept: 'application/json' };
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body,
+        signal: controller.signal,
+      });
+
+      const payload = await response.json().catch(() => null);
+      const ok = response.ok && payload?.success !== false;
+
+      return {
+        ok,
+        status: response.status,
+        fieldErrors: ok ? {} : this.extractFieldErrors(payload),
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Check whether a failed submission was caused by the visitor being offline
+   * Timeouts are not queued: the server may already have received the message
+   */
+  private isOfflineError(error: unknown): boolean {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return false;
+    }
+    return !navigator.onLine || error instanceof TypeError;
+  }
+
+  /**
+   * Store a submission in the outbox and schedule its replay
+   */
+  private async queueSubmission(endpoint: string, body: string): Promise<boolean> {
+    if (!this.outbox) return false;
+
+    try {
+      const entry: OutboxEntry = {
+        id: ContactOutbox.createId(),
+        endpoint,
+        body,
+        createdAt: Date.now(),
+      };
+      await this.outbox.add(entry);
+      if (!this.proofOfWork) {
+        await this.outbox.requestBackgroundSync();
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to queue contact submission:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Replay the outbox from the page, unless Background Sync can do it without proofs of work
+   */
+  private async replayOutbox(): Promise<void> {
+    if (!this.outbox) return;
+
+    try {
+      const proofOfWork = this.proofOfWork;
+      if (!proofOfWork && (await this.outbox.requestBackgroundSync())) {
+        return; // The service worker replays and reports back via postMessage
+      }
+      await this.outbox.replay(
+        (_entry, status) => this.handleOutboxResult(status),
+        proofOfWork
+          ? () => proofOfWork.getSolution(this.config.challengeTimeout ?? DEFAULT_CHALLENGE_TIMEOUT)
+          : undefined
+      );
+    } catch (error) {
+      console.warn('Failed to replay contact outbox:', error);
+    }
+  }
+
+  /**
+   * Handle replay results posted by the service worker
+   */
+  private handleServiceWorkerMessage(event: MessageEvent): void {
+    const data = event.data as { type?: string; status?: OutboxReplayStatus } | null;
+    if (data?.type === 'contact-outbox' && data.status) {
+      this.handleOutboxResult(data.status);
+    }
+  }
+
+  /**
+   * Tell the visitor what happened to a pending message
+   */
+  private handleOutboxResult(status: OutboxReplayStatus): void {
+    if (status === 'sent') {
+      this.showTranslatedMessage('success', ['contact.outboxSentMessage']);
+    } else {
+      this.showTranslatedMessage('error', ['contact.errorMessage']);
+    }
+  }
+
+  /**
+   * Map API and Formspree error payloads onto form fields
+   * API: { errors: { email: '...' } } - Formspree: { errors: [{ field: 'email', message: '...' }] }
+   */
+  private extractFieldErrors(payload: unknown): Record<string, string> {
+    const fieldErrors: Record<string, string> = {};
+    const errors = (payload as { errors?: unknown } | null)?.errors;
+
+    if (Array.isArray(errors)) {
+      errors.forEach(entry => {
+        const { field, message } = (entry || {}) as { field?: string; message?: string };
+        if (field && message) {
+          fieldErrors[field] = message;
+        }
+      });
+    } else if (errors && typeof errors === 'object') {
+      Object.entries(errors as Record<string, unknown>).forEach(([field, message]) => {
+        if (typeof message === 'string') {
+          fieldErrors[field] = message;
+        }
+      });
+    }
+
+    // Only keep errors for fields that exist in this form
+    Object.keys(fieldErrors).forEach(field => {
+      if (!this.formElement?.querySelector(`[name="${field}"]`)) {
+        delete fieldErrors[field];
+      }
+    });
 
-    // Show success message
-    this.showSuccessMessage();
-    this.resetForm();
+    return fieldErrors;
+  }
+
+  /**
+   * Focus the first field reported as invalid
+   */
+  private focusFirstInvalidField(fieldNames: string[]): void {
+    if (fieldNames.length === 0) return;
+
+    const fieldElement = this.formElement?.querySelector(
+      `[name="${fieldNames[0]}"]`
+    ) as HTMLElement;
+    fieldElement?.focus();
+  }
+
+  /**
+   * Get the (translated) loading label from the submit button
+   */
+  private getLoadingText(): string {
+    const loadingText = this.submitButton?.querySelector('.btn-loading');
+    return loadingText?.textContent?.trim() || '';
+  }
+
+  /**
+   * Update the progress indicator shown while submitting
+   */
+  private updateProgress(message: string): void {
+    if (!this.config.progressSelector) return;
+
+    const progressElement = document.querySelector(this.config.progressSelector) as HTMLElement;
+    if (progressElement) {
+      progressElement.textContent = message;
+      progressElement.setAttribute('aria-hidden', message ? 'false' : 'true');
+    }
+  }
+
+  /**
+   * Announce a message to screen readers through the live region
+   */
+  private announce(message: string): void {
+    if (!this.config.liveRegionSelector || !message) return;
+
+    const liveRegion = document.querySelector(this.config.liveRegionSelector);
+    if (liveRegion) {
+      liveRegion.textContent = message;
+    }
   }
 
   /**
@@ -247,10 +1003,31 @@ export class ContactFormManager {
     }
   }
 
+  /**
+   * Show a translated success or error message and announce it to screen readers
+   */
+  private showTranslatedMessage(
+    type: VisibleMessage['type'],
+    keys: string[],
+    params?: MessageParams
+  ): void {
+    const message = keys.map(key => this.t(key, params)).join('. ');
+
+    if (type === 'success') {
+      this.showSuccessMessage(message);
+    } else {
+      this.showErrorMessage(message);
+    }
+    this.visibleMessage = { type, keys, params };
+    this.announce(message);
+  }
+
   /**
    * Show success message
    */
   private showSuccessMessage(message?: string): void {
+    this.visibleMessage = null;
+
     const successElement = document.querySelector(
       this.config.successMessageSelector
     ) as HTMLElement;
@@ -277,8 +1054,10 @@ export class ContactFormManager {
         successElement.classList.add('hidden');
         (successElement as HTMLElement).style.display = 'none';
         successElement.setAttribute('aria-hidden', 'true');
-        successElement.textContent =
-          'Mensagem enviada com sucesso! Entraremos em contacto brevemente.';
+        successElement.textContent = this.t('contact.successNotice');
+        if (this.visibleMessage?.type === 'success') {
+          this.visibleMessage = null;
+        }
       }
     }, 5000);
   }
@@ -287,6 +1066,7 @@ export class ContactFormManager {
    * Show error message
    */
   private showErrorMessage(message: string): void {
+    this.visibleMessage = null;
     const errorElement = document.querySelector(this.config.errorMessageSelector) as HTMLElement;
     const successElement = document.querySelector(
       this.config.successMessageSelector
@@ -313,6 +1093,8 @@ export class ContactFormManager {
     if (this.formElement) {
       this.formElement.reset();
       this.validator.clearErrors();
+      this.attachments?.clear();
+      this.renderedAt = Date.now();
     }
   }
 
@@ -334,20 +1116,42 @@ export class ContactFormManager {
    * Destroy the contact form manager
    */
   public destroy(): void {
-    // Form submits natively, no cleanup needed
+    this.formElement?.removeEventListener('submit', this.submitHandler);
+    this.formElement?.removeEventListener('focusin', this.focusHandler);
+    this.proofOfWork?.destroy();
+    this.attachments?.destroy();
+    this.formElement?.removeEventListener('input', this.draftInputHandler);
+    this.formElement?.removeEventListener('change', this.draftInputHandler);
+    this.draftPrompt?.remove();
+    window.removeEventListener('online', this.onlineHandler);
+    this.unsubscribeLanguage?.();
+    this.unsubscribeLanguage = null;
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.removeEventListener('message', this.serviceWorkerMessageHandler);
+    }
   }
 }
 
 /**
  * Create a contact form manager with default configuration
  */
-export function createContactForm(): ContactFormManager {
+export function createContactForm(translationManager?: TranslationManager): ContactFormManager {
   const config: ContactFormConfig = {
     formSelector: '#contact-form-element',
     submitButtonSelector: '#contact-submit',
     successMessageSelector: '#form-success',
     errorMessageSelector: '#form-error',
+    progressSelector: '#form-progress',
+    liveRegionSelector: '#contact-form-live-region',
+    submissionMode: 'ajax',
+    // The API verifies proofs of work; the form's Formspree action is the no-JavaScript fallback
+    endpoint: '/api/contact',
+    enableOfflineOutbox: true,
+    throttle: { maxSubmissions: 3, windowMs: 10 * 60 * 1000 },
+    minFillTime: 3000,
+    challengeEndpoint: '/api/challenge',
+    draftStorageKey: 'lofersil-contact-draft',
   };
 
-  return new ContactFormManager(config);
+  return new ContactFormManager(config, translationManager);
 }
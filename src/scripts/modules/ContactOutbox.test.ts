@@ -0,0 +1,28 @@
+/**
+ * ContactOutbox Tests
+ * Replay decisions and proof-of-work refresh for queued submissions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isPermanentFailure, withProof } from './ContactOutbox.js';
+
+describe('ContactOutbox', () => {
+  const staleProof = { challenge: 'expired.challenge', nonce: '17' };
+  const freshProof = { challenge: 'fresh.challenge', nonce: '4242' };
+
+  it('should keep entries whose failure may pass on retry', () => {
+    expect(isPermanentFailure(400)).toBe(true);
+    expect(isPermanentFailure(409)).toBe(true);
+    // Expired or missing proofs are re-solved on the next replay
+    expect(isPermanentFailure(403)).toBe(false);
+    expect(isPermanentFailure(429)).toBe(false);
+    expect(isPermanentFailure(502)).toBe(false);
+  });
+
+  it('should replace the proof of a queued body', () => {
+    const body = JSON.stringify({ name: 'Maria', proof: staleProof });
+
+    expect(JSON.parse(withProof(body, freshProof))).toEqual({ name: 'Maria', proof: freshProof });
+    expect(JSON.parse(withProof(body, null))).toEqual({ name: 'Maria' });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Contact Outbox for LOFERSIL Landing Page
+ * Persists contact submissions made while offline in IndexedDB so they can be replayed later.
+ * Background Sync through sw.js is only used when the form requires no proof of work, as the
+ * service worker cannot solve challenges. Otherwise the page replays them itself on load and on
+ * the next online event, attaching a fresh proof as proofs are single-use and expire.
+ * The database layout is shared with sw.js - keep both in sync.
+ */
+
+import type { ProofOfWorkSolution } from '../proofOfWork.js';
+
+export const OUTBOX_DB_NAME = 'lofersil-contact-outbox';
+export const OUTBOX_STORE_NAME = 'messages';
+export const OUTBOX_SYNC_TAG = 'contact-outbox';
+
+export interface OutboxEntry {
+  id: string;
+  endpoint: string;
+  body: string;
+  createdAt: number;
+}
+
+export type OutboxReplayStatus = 'sent' | 'rejected';
+
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Client errors other than timeouts, rate limiting and failed proofs of work will not
+ * succeed on retry
+ */
+export function isPermanentFailure(status: number): boolean {
+  return status >= 400 && status < 500 && status !== 403 && status !== 408 && status !== 429;
+}
+
+/**
+ * Replace the proof of work in a queued JSON body, dropping it when there is no new one
+ */
+export function withProof(body: string, proof?: ProofOfWorkSolution | null): string {
+  const fields = JSON.parse(body);
+  delete fields.proof;
+  return JSON.stringify(proof ? { ...fields, proof } : fields);
+}
+
+export class ContactOutbox {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Check if IndexedDB is available
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Generate an id for a queued submission
+   */
+  static createId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+
+  /**
+   * Open (and upgrade if needed) the outbox database
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(OUTBOX_DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(OUTBOX_STORE_NAME, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Run a request against the outbox store
+   */
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(OUTBOX_STORE_NAME, mode);
+    return promisifyRequest(action(transaction.objectStore(OUTBOX_STORE_NAME)));
+  }
+
+  /**
+   * Queue a submission
+   */
+  async add(entry: OutboxEntry): Promise<void> {
+    await this.withStore('readwrite', store => store.put(entry));
+  }
+
+  /**
+   * Get all queued submissions, oldest first
+   */
+  async getAll(): Promise<OutboxEntry[]> {
+    const entries = await this.withStore('readonly', store => store.getAll());
+    return (entries as OutboxEntry[]).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Remove a queued submission
+   */
+  async remove(id: string): Promise<void> {
+    await this.withStore('readwrite', store => store.delete(id));
+  }
+
+  /**
+   * Ask the service worker to replay the outbox via Background Sync
+   * Returns false when Background Sync is unavailable and the page must replay itself
+   */
+  async requestBackgroundSync(): Promise<boolean> {
+    if (!('serviceWorker' in navigator) || !('SyncManager' in window)) {
+      return false;
+    }
+
+    try {
+      const registration = (await navigator.serviceWorker.getRegistration()) as
+        | SyncCapableRegistration
+        | undefined;
+      if (!registration?.sync) {
+        return false;
+      }
+      await registration.sync.register(OUTBOX_SYNC_TAG);
+      return true;
+    } catch (error) {
+      console.warn('Background sync registration failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Replay queued submissions from the page, solving a new challenge for each when `getProof`
+   * is given
+   * Stops at the first network failure so the remaining entries are retried later
+   */
+  async replay(
+    onResult: (entry: OutboxEntry, status: OutboxReplayStatus) => void,
+    getProof?: () => Promise<ProofOfWorkSolution | null>
+  ): Promise<void> {
+    const entries = await this.getAll();
+
+    for (const entry of entries) {
+      let response: Response;
+      try {
+        const body = getProof ? withProof(entry.body, await getProof()) : entry.body;
+        response = await fetch(entry.endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json',
+          },
+          body,
+        });
+      } catch {
+        return;
+      }
+
+      if (response.ok) {
+        await this.remove(entry.id);
+        onResult(entry, 'sent');
+      } else if (isPermanentFailure(response.status)) {
+        // The server will never accept this payload, drop it
+        await this.remove(entry.id);
+        onResult(entry, 'rejected');
+      } else {
+        return;
+      }
+    }
+  }
+}
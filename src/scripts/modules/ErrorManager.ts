@@ -4,6 +4,11 @@
  * Basic error handling and user notifications for the LOFERSIL Landing Page.
  */
 
+import { LanguageChangeDetail, languageEvents } from './LanguageEvents.js';
+
+const UNEXPECTED_ERROR_MESSAGE =
+  'An unexpected error occurred. Please refresh the page and try again.';
+
 const IS_DEVELOPMENT =
   window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
 
@@ -13,11 +18,18 @@ const IS_DEVELOPMENT =
 export class ErrorManager {
   private showUserMessages: boolean;
   private logToConsole: boolean;
+  private translate: LanguageChangeDetail['translate'] | null = null;
+  // Visible notifications and the translation keys they were created from
+  private translatedNotifications = new Map<HTMLElement, string>();
 
   constructor(config: { showUserMessages?: boolean; logToConsole?: boolean } = {}) {
     this.showUserMessages = config.showUserMessages ?? true;
     this.logToConsole = config.logToConsole ?? IS_DEVELOPMENT;
     this.setupGlobalErrorHandling();
+    languageEvents.subscribe(({ translate }) => {
+      this.translate = translate;
+      this.relocalizeNotifications();
+    });
   }
 
   /**
@@ -46,14 +58,25 @@ export class ErrorManager {
     }
 
     if (this.showUserMessages && this.isCriticalError(context)) {
-      this.showErrorMessage('An unexpected error occurred. Please refresh the page and try again.');
+      this.showTranslatedError('errors.unexpected', UNEXPECTED_ERROR_MESSAGE);
     }
   }
 
+  /**
+   * Show an error notification from a translation key
+   * The text follows language changes while the notification is visible
+   */
+  showTranslatedError(key: string, fallback: string, duration: number = 5000): HTMLElement {
+    const message = this.translate ? this.translate(key) : fallback;
+    const errorDiv = this.showErrorMessage(message, duration);
+    this.translatedNotifications.set(errorDiv, key);
+    return errorDiv;
+  }
+
   /**
    * Show error notification to user
    */
-  showErrorMessage(message: string, duration: number = 5000): void {
+  showErrorMessage(message: string, duration: number = 5000): HTMLElement {
     const errorDiv = document.createElement('div');
     errorDiv.className = 'notification error';
     errorDiv.textContent = message;
@@ -67,6 +90,7 @@ export class ErrorManager {
     }, duration);
 
     document.body.appendChild(errorDiv);
+    return errorDiv;
   }
 
   /**
@@ -126,6 +150,19 @@ export class ErrorManager {
     document.body.appendChild(warningDiv);
   }
 
+  /**
+   * Translate visible notifications into the new language and forget dismissed ones
+   */
+  private relocalizeNotifications(): void {
+    this.translatedNotifications.forEach((key, notification) => {
+      if (!notification.isConnected) {
+        this.translatedNotifications.delete(notification);
+      } else if (this.translate) {
+        notification.textContent = this.translate(key);
+      }
+    });
+  }
+
   /**
    * Check if error should show user message
    */
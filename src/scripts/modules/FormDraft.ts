@@ -0,0 +1,59 @@
+/**
+ * Form Draft for LOFERSIL Landing Page
+ * Stores an unsent form draft in sessionStorage so it survives reloads within the tab
+ */
+
+export interface DraftSnapshot {
+  values: Record<string, string>;
+  savedAt: number;
+}
+
+export class FormDraft {
+  private readonly storageKey: string;
+
+  constructor(storageKey: string) {
+    this.storageKey = storageKey;
+  }
+
+  /**
+   * Save the draft, or clear it when every value is empty
+   */
+  save(values: Record<string, string>): void {
+    if (Object.values(values).every(value => value.trim() === '')) {
+      this.clear();
+      return;
+    }
+
+    try {
+      const snapshot: DraftSnapshot = { values, savedAt: Date.now() };
+      sessionStorage.setItem(this.storageKey, JSON.stringify(snapshot));
+    } catch (error) {
+      console.warn('Failed to save form draft to sessionStorage:', error);
+    }
+  }
+
+  /**
+   * Load the saved draft, if any
+   */
+  load(): DraftSnapshot | null {
+    try {
+      const stored = sessionStorage.getItem(this.storageKey);
+      const snapshot = stored ? (JSON.parse(stored) as DraftSnapshot) : null;
+      return snapshot && typeof snapshot.values === 'object' ? snapshot : null;
+    } catch (error) {
+      console.warn('Failed to read form draft from sessionStorage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove the saved draft
+   */
+  clear(): void {
+    try {
+      sessionStorage.removeItem(this.storageKey);
+    } catch (error) {
+      console.warn('Failed to remove form draft from sessionStorage:', error);
+    }
+  }
+}
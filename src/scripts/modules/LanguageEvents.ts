@@ -0,0 +1,59 @@
+/**
+ * Language Events for LOFERSIL Landing Page
+ * Typed languagechange notifications for modules that build their own DOM and cannot
+ * rely on data-translate attributes. TranslationManager emits once translations are
+ * loaded and after every switch; subscribers receive a translate function for the
+ * new language.
+ */
+
+import type { MessageParams } from '../messageFormat.js';
+
+export const LANGUAGE_CHANGE_EVENT = 'languagechange';
+
+export interface LanguageChangeDetail {
+  // Code of the new language, e.g. 'en'
+  language: string;
+  // Code of the previous language, or null for the initial language
+  previousLanguage: string | null;
+  // BCP 47 locale of the new language, e.g. 'en-US'
+  locale: string;
+  // Translate a key in the new language
+  translate: (key: string, params?: MessageParams) => string;
+}
+
+export type LanguageChangeListener = (detail: LanguageChangeDetail) => void;
+
+export class LanguageEvents extends EventTarget {
+  private current: LanguageChangeDetail | null = null;
+
+  /**
+   * Notify subscribers of the active language
+   */
+  emit(detail: LanguageChangeDetail): void {
+    this.current = detail;
+    this.dispatchEvent(new CustomEvent(LANGUAGE_CHANGE_EVENT, { detail }));
+  }
+
+  /**
+   * Listen for language changes, returning a function that stops listening
+   * Listeners are called right away when a language is already active
+   */
+  subscribe(listener: LanguageChangeListener): () => void {
+    const handler = (event: Event) => listener((event as CustomEvent<LanguageChangeDetail>).detail);
+    this.addEventListener(LANGUAGE_CHANGE_EVENT, handler);
+    if (this.current) {
+      listener(this.current);
+    }
+    return () => this.removeEventListener(LANGUAGE_CHANGE_EVENT, handler);
+  }
+
+  /**
+   * Get the active language, or null before translations are loaded
+   */
+  getCurrent(): LanguageChangeDetail | null {
+    return this.current;
+  }
+}
+
+// Shared bus used by the page
+export const languageEvents = new LanguageEvents();
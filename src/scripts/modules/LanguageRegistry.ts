@@ -0,0 +1,107 @@
+/**
+ * Language Registry for LOFERSIL Landing Page
+ * Lists the languages the site is available in. Detection, hreflang tags, the html lang
+ * attribute and the language picker are all driven from here, so adding a language means
+ * registering it and providing /locales/<code>.json.
+ */
+
+import { Language } from '../types.js';
+
+// localStorage key of the visitor's chosen language
+export const LANGUAGE_STORAGE_KEY = 'language';
+
+export const DEFAULT_LANGUAGES: Language[] = [
+  { code: 'pt', name: 'Português', flag: '🇵🇹', locale: 'pt-PT', path: '/' },
+  { code: 'en', name: 'English', flag: '🇬🇧', locale: 'en-US', path: '/en/' },
+];
+
+export class LanguageRegistry {
+  private languages = new Map<string, Language>();
+  private defaultCode: string;
+
+  constructor(languages: Language[] = DEFAULT_LANGUAGES, defaultCode = languages[0]?.code) {
+    languages.forEach(language => this.register(language));
+    this.defaultCode = defaultCode;
+  }
+
+  /**
+   * Register a language, replacing any existing entry with the same code
+   */
+  register(language: Language): void {
+    this.languages.set(language.code, language);
+  }
+
+  /**
+   * Get a language by code
+   */
+  get(code: string): Language | undefined {
+    return this.languages.get(code);
+  }
+
+  /**
+   * Check whether a language code is registered
+   */
+  has(code: string): boolean {
+    return this.languages.has(code);
+  }
+
+  /**
+   * Get all registered languages in registration order
+   */
+  getAll(): Language[] {
+    return [...this.languages.values()];
+  }
+
+  /**
+   * Get all registered language codes
+   */
+  getCodes(): string[] {
+    return [...this.languages.keys()];
+  }
+
+  /**
+   * Get the default language
+   */
+  getDefault(): Language {
+    return this.languages.get(this.defaultCode) || this.getAll()[0];
+  }
+
+  /**
+   * Get the languages to look keys up in, e.g. en-GB → en → pt
+   * Follows explicit fallbacks, then the primary subtag, and always ends with the default
+   */
+  getFallbackChain(code: string): string[] {
+    const chain: string[] = [];
+    let current: string | undefined = code;
+
+    while (current && this.has(current) && !chain.includes(current)) {
+      chain.push(current);
+      const primary = current.split('-')[0];
+      current = this.get(current)?.fallback || (primary !== current ? primary : undefined);
+    }
+
+    const defaultCode = this.getDefault().code;
+    if (!chain.includes(defaultCode)) {
+      chain.push(defaultCode);
+    }
+    return chain;
+  }
+
+  /**
+   * Find the language for a browser language tag such as 'en-GB'
+   * An exact locale match wins over a match on the primary subtag
+   */
+  match(tag: string): Language | undefined {
+    const normalized = tag.toLowerCase();
+    const primary = normalized.split('-')[0];
+    const languages = this.getAll();
+
+    return (
+      languages.find(language => language.locale.toLowerCase() === normalized) ||
+      languages.find(language => language.code.toLowerCase() === primary)
+    );
+  }
+}
+
+// Shared registry used by the page
+export const languageRegistry = new LanguageRegistry();
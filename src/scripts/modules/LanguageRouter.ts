@@ -0,0 +1,95 @@
+/**
+ * Language Router for LOFERSIL Landing Page
+ * Maps URLs to languages and pages: /en/privacy is the English version of /privacy.
+ * Pages listed in the route map exist in every registered language, which is what
+ * the canonical link, hreflang alternates and language switches are derived from.
+ */
+
+import { Language, LanguageRoute } from '../types.js';
+import { LanguageRegistry, languageRegistry } from './LanguageRegistry.js';
+
+export const DEFAULT_ROUTES: LanguageRoute[] = [
+  { path: '/', inPage: true },
+  { path: '/privacy' },
+  { path: '/terms' },
+];
+
+export interface ParsedPath {
+  // Language the path is served in
+  language: Language;
+  // Page path without the language prefix
+  path: string;
+  // Route map entry for the page, if the page exists in every language
+  route?: LanguageRoute;
+}
+
+export class LanguageRouter {
+  private readonly registry: LanguageRegistry;
+  private readonly routes: LanguageRoute[];
+
+  constructor(registry: LanguageRegistry = languageRegistry, routes = DEFAULT_ROUTES) {
+    this.registry = registry;
+    this.routes = routes;
+  }
+
+  /**
+   * Split a pathname into its language and page, e.g. /en/privacy.html → en, /privacy
+   */
+  parse(pathname: string): ParsedPath {
+    const prefixed = this.getPathLanguage(pathname);
+    const language =
+      prefixed ||
+      this.registry.getAll().find(({ path }) => path === '/') ||
+      this.registry.getDefault();
+
+    const unprefixed = prefixed ? pathname.slice(prefixed.path.length - 1) : pathname;
+    const path = unprefixed.replace(/\.html$/, '').replace(/\/index$/, '/') || '/';
+
+    return { language, path, route: this.routes.find(route => route.path === path) };
+  }
+
+  /**
+   * Get the language a pathname is explicitly prefixed with, e.g. /en/ → en
+   * Paths served from the root return undefined
+   */
+  getPathLanguage(pathname: string): Language | undefined {
+    return this.registry
+      .getAll()
+      .find(
+        ({ path }) => path !== '/' && (pathname.startsWith(path) || pathname === path.slice(0, -1))
+      );
+  }
+
+  /**
+   * Get the path of a page in another language, or null when the page is not in the route map
+   */
+  localize(pathname: string, code: string): string | null {
+    const { route } = this.parse(pathname);
+    const language = this.registry.get(code);
+    if (!route || !language) {
+      return null;
+    }
+    return `${language.path}${route.path.slice(1)}`;
+  }
+
+  /**
+   * Get the hreflang alternates of a page, including x-default
+   * Pages outside the route map have no alternates
+   */
+  getAlternates(pathname: string): Array<{ hreflang: string; path: string }> {
+    const { route } = this.parse(pathname);
+    if (!route) {
+      return [];
+    }
+
+    const alternates = this.registry.getAll().map(language => ({
+      hreflang: language.locale,
+      path: `${language.path}${route.path.slice(1)}`,
+    }));
+    alternates.push({
+      hreflang: 'x-default',
+      path: `${this.registry.getDefault().path}${route.path.slice(1)}`,
+    });
+    return alternates;
+  }
+}
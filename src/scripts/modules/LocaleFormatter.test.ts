@@ -0,0 +1,111 @@
+/**
+ * Locale Formatter Tests
+ * Unit tests for locale-aware date, number, currency and phone formatting
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LanguageEvents } from './LanguageEvents.js';
+import { LocaleFormatter, formatPhoneNumber, toDate } from './LocaleFormatter.js';
+import { TranslationManager } from './TranslationManager.js';
+
+// Intl separates values and symbols with non-breaking spaces
+const normalize = (text: string | null) => (text || '').replace(/\s/g, ' ');
+
+describe('LocaleFormatter', () => {
+  let locale: string;
+  let events: LanguageEvents;
+  let formatter: LocaleFormatter;
+
+  const emitLanguage = (language: string) => {
+    events.emit({ language, previousLanguage: null, locale, translate: key => key });
+  };
+
+  beforeEach(() => {
+    locale = 'pt-PT';
+    events = new LanguageEvents();
+    const translationManager = {
+      getCurrentLocale: () => locale,
+      onLanguageChange: listener => events.subscribe(listener),
+    } as TranslationManager;
+    formatter = new LocaleFormatter(translationManager);
+  });
+
+  afterEach(() => {
+    formatter.destroy();
+    document.body.innerHTML = '';
+    vi.unstubAllEnvs();
+  });
+
+  it('should format prices in euros for the current language', () => {
+    expect(normalize(formatter.formatCurrency(1234.5))).toBe('1234,50 €');
+
+    locale = 'en-US';
+    expect(formatter.formatCurrency(1234.5)).toBe('€1,234.50');
+  });
+
+  it('should format dates and times in the current locale', () => {
+    const date = new Date(2024, 11, 24, 9, 5);
+
+    expect(formatter.formatDate(date)).toBe('24 de dezembro de 2024');
+    expect(formatter.formatTime('09:05')).toBe('09:05');
+
+    locale = 'en-US';
+    expect(formatter.formatDate(date)).toBe('December 24, 2024');
+    expect(normalize(formatter.formatTime(date))).toBe('9:05 AM');
+  });
+
+  it('should read calendar dates as local days west of UTC', () => {
+    vi.stubEnv('TZ', 'America/New_York');
+
+    expect(toDate('2024-12-24').getDate()).toBe(24);
+    expect(formatter.formatDate('2024-12-24')).toBe('24 de dezembro de 2024');
+  });
+
+  it('should pick the largest unit for relative times', () => {
+    const base = new Date(2024, 11, 24);
+
+    expect(formatter.formatRelativeTime(new Date(2024, 11, 21), base)).toBe('há 3 dias');
+    locale = 'en-US';
+    expect(formatter.formatRelativeTime(new Date(2024, 11, 23), base)).toBe('yesterday');
+    expect(formatter.formatRelativeTime(new Date(2025, 1, 24), base)).toBe('in 2 months');
+  });
+
+  it('should format Portuguese phone numbers', () => {
+    expect(formatPhoneNumber('213531555')).toBe('21 353 1555');
+    expect(formatPhoneNumber('+351 912345678')).toBe('912 345 678');
+    expect(formatPhoneNumber('00351 21 353 15 55', 'international')).toBe('+351 21 353 1555');
+    expect(formatPhoneNumber('21 353 1555', 'e164')).toBe('+351213531555');
+    expect(formatPhoneNumber('+44 20 7946 0958')).toBe('+442079460958');
+    expect(formatPhoneNumber('1555')).toBe('1555');
+  });
+
+  it('should show phone numbers internationally outside Portuguese', () => {
+    expect(formatter.formatPhone('+351213531555')).toBe('21 353 1555');
+
+    locale = 'en-US';
+    expect(formatter.formatPhone('+351213531555')).toBe('+351 21 353 1555');
+  });
+
+  it('should format data-format elements and re-format them on language change', () => {
+    document.body.innerHTML = `
+      <span id="price" data-format="currency" data-format-value="25">25 €</span>
+      <span id="count" data-format="number" data-format-options='{"minimumFractionDigits": 1}'>1500</span>
+      <span id="phone" data-format="phone">+351213531555</span>
+      <span id="invalid" data-format="date" data-format-value="not a date">?</span>
+    `;
+    formatter.initialize();
+    emitLanguage('pt');
+
+    expect(normalize(document.getElementById('price')!.textContent)).toBe('25,00 €');
+    expect(normalize(document.getElementById('count')!.textContent)).toBe('1500,0');
+    expect(document.getElementById('phone')!.textContent).toBe('21 353 1555');
+    expect(document.getElementById('invalid')!.textContent).toBe('?');
+
+    locale = 'en-US';
+    emitLanguage('en');
+
+    expect(document.getElementById('price')!.textContent).toBe('€25.00');
+    expect(document.getElementById('count')!.textContent).toBe('1,500.0');
+    expect(document.getElementById('phone')!.textContent).toBe('+351 21 353 1555');
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Locale Formatter for LOFERSIL Landing Page
+ * Formats dates, times, numbers, prices, relative times and phone numbers in the
+ * current language's locale. Use it from code or mark up elements in templates:
+ *   <span data-format="currency" data-format-value="25">25 €</span>
+ *   <time data-format="date" data-format-value="2024-12-24">24/12/2024</time>
+ *   <span data-format="phone">21 353 1555</span>
+ * data-format-options takes JSON Intl options. Elements are re-formatted when the language changes.
+ */
+
+import { TranslationManager } from './TranslationManager.js';
+
+export type FormatType =
+  | 'date'
+  | 'time'
+  | 'datetime'
+  | 'number'
+  | 'currency'
+  | 'relative'
+  | 'phone';
+export type DateInput = Date | string | number;
+export type PhoneStyle = 'national' | 'international' | 'e164';
+
+const PORTUGAL_COUNTRY_CODE = '351';
+
+// Largest unit first; the first one the difference reaches is used for relative times
+const RELATIVE_TIME_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['year', 365 * 24 * 60 * 60 * 1000],
+  ['month', 30 * 24 * 60 * 60 * 1000],
+  ['week', 7 * 24 * 60 * 60 * 1000],
+  ['day', 24 * 60 * 60 * 1000],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000],
+  ['second', 1000],
+];
+
+/**
+ * Parse a date input; 'HH:MM' strings such as opening hours are read as today at that time
+ * and 'YYYY-MM-DD' strings as that day in the visitor's time zone rather than at UTC midnight
+ */
+export function toDate(value: DateInput): Date {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+  if (typeof value === 'string' && /^\d{1,2}:\d{2}$/.test(value)) {
+    const [hours, minutes] = value.split(':').map(Number);
+    const date = new Date();
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+  }
+  return new Date(value);
+}
+
+/**
+ * Parse a numeric attribute value, rejecting anything that is not a number
+ */
+function toNumber(value: string): number {
+  const number = Number(value);
+  if (value.trim() === '' || Number.isNaN(number)) {
+    throw new RangeError(`Invalid number: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * Format a phone number; Portuguese numbers are grouped, others are returned in E.164
+ *   national       21 353 1555, 912 345 678
+ *   international  +351 21 353 1555
+ *   e164           +351213531555
+ */
+export function formatPhoneNumber(value: string, style: PhoneStyle = 'national'): string {
+  const digits = value.replace(/[^\d]/g, '');
+  const international = value.trim().startsWith('+') || value.trim().startsWith('00');
+  const withoutPrefix = digits.replace(/^00/, '');
+
+  let national = digits;
+  if (international) {
+    if (!withoutPrefix.startsWith(PORTUGAL_COUNTRY_CODE)) {
+      return `+${withoutPrefix}`;
+    }
+    national = withoutPrefix.slice(PORTUGAL_COUNTRY_CODE.length);
+  }
+  if (national.length !== 9) {
+    return value.trim();
+  }
+
+  if (style === 'e164') {
+    return `+${PORTUGAL_COUNTRY_CODE}${national}`;
+  }
+
+  // Lisbon (21) and Porto (22) use a two-digit area code, other numbers group 3-3-3
+  const grouped = /^2[12]/.test(national)
+    ? `${national.slice(0, 2)} ${national.slice(2, 5)} ${national.slice(5)}`
+    : `${national.slice(0, 3)} ${national.slice(3, 6)} ${national.slice(6)}`;
+  return style === 'international' ? `+${PORTUGAL_COUNTRY_CODE} ${grouped}` : grouped;
+}
+
+export class LocaleFormatter {
+  private translationManager: TranslationManager;
+  private formatters = new Map<string, unknown>();
+  private unsubscribeLanguage: (() => void) | null = null;
+
+  constructor(translationManager: TranslationManager) {
+    this.translationManager = translationManager;
+  }
+
+  /**
+   * Format the page's data-format elements and keep them in sync with the language
+   */
+  initialize(): void {
+    this.unsubscribeLanguage = this.translationManager.onLanguageChange(() =>
+      this.applyFormatting()
+    );
+  }
+
+  /**
+   * Stop following language changes
+   */
+  destroy(): void {
+    this.unsubscribeLanguage?.();
+    this.unsubscribeLanguage = null;
+  }
+
+  /**
+   * Get the locale formatting follows
+   */
+  getLocale(): string {
+    return this.translationManager.getCurrentLocale();
+  }
+
+  /**
+   * Format a date, e.g. 24 de dezembro de 2024
+   */
+  formatDate(
+    value: DateInput,
+    options: Intl.DateTimeFormatOptions = { dateStyle: 'long' }
+  ): string {
+    return this.getDateFormat(options).format(toDate(value));
+  }
+
+  /**
+   * Format a time of day, e.g. 09:00 or 9:00 AM
+   */
+  formatTime(
+    value: DateInput,
+    options: Intl.DateTimeFormatOptions = { timeStyle: 'short' }
+  ): string {
+    return this.getDateFormat(options).format(toDate(value));
+  }
+
+  /**
+   * Format a date and time
+   */
+  formatDateTime(
+    value: DateInput,
+    options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }
+  ): string {
+    return this.getDateFormat(options).format(toDate(value));
+  }
+
+  /**
+   * Format a number, e.g. 1 234,5 or 1,234.5
+   */
+  formatNumber(value: number, options: Intl.NumberFormatOptions = {}): string {
+    return this.getNumberFormat(options).format(value);
+  }
+
+  /**
+   * Format a price, in euros unless another currency is given
+   */
+  formatCurrency(value: number, currency = 'EUR', options: Intl.NumberFormatOptions = {}): string {
+    return this.getNumberFormat({ style: 'currency', currency, ...options }).format(value);
+  }
+
+  /**
+   * Format a date relative to now (or `base`) in the largest fitting unit, e.g. há 3 dias
+   */
+  formatRelativeTime(
+    value: DateInput,
+    base: DateInput = new Date(),
+    options: Intl.RelativeTimeFormatOptions = { numeric: 'auto' }
+  ): string {
+    const difference = toDate(value).getTime() - toDate(base).getTime();
+    const [unit, size] =
+      RELATIVE_TIME_UNITS.find(([, milliseconds]) => Math.abs(difference) >= milliseconds) ||
+      RELATIVE_TIME_UNITS[RELATIVE_TIME_UNITS.length - 1];
+
+    const format = this.getFormatter(
+      'relative',
+      options,
+      locale => new Intl.RelativeTimeFormat(locale, options)
+    );
+    return format.format(Math.round(difference / size), unit);
+  }
+
+  /**
+   * Format a phone number; Portuguese visitors see the national form, others the international one
+   */
+  formatPhone(value: string, style?: PhoneStyle): string {
+    const defaultStyle = this.getLocale().startsWith('pt') ? 'national' : 'international';
+    return formatPhoneNumber(value, style || defaultStyle);
+  }
+
+  /**
+   * Format a value by type name, as used by data-format attributes
+   */
+  format(type: FormatType, value: string, options: Record<string, unknown> = {}): string {
+    switch (type) {
+      case 'date':
+        return this.formatDate(value, { dateStyle: 'long', ...options });
+      case 'time':
+        return this.formatTime(value, { timeStyle: 'short', ...options });
+      case 'datetime':
+        return this.formatDateTime(value, { dateStyle: 'medium', timeStyle: 'short', ...options });
+      case 'number':
+        return this.formatNumber(toNumber(value), options);
+      case 'currency': {
+        const { currency = 'EUR', ...rest } = options;
+        return this.formatCurrency(toNumber(value), String(currency), rest);
+      }
+      case 'relative':
+        return this.formatRelativeTime(value);
+      case 'phone':
+        return this.formatPhone(value, options.style as PhoneStyle | undefined);
+      default:
+        throw new Error(`Unknown format type: ${type}`);
+    }
+  }
+
+  /**
+   * Format every [data-format] element inside `root`
+   * The original value is kept in data-format-value so elements can be re-formatted;
+   * values that cannot be formatted are left as they are
+   */
+  applyFormatting(root: ParentNode = document): void {
+    root.querySelectorAll<HTMLElement>('[data-format]').forEach(element => {
+      const type = element.getAttribute('data-format') as FormatType;
+      let value = element.getAttribute('data-format-value');
+      if (value === null) {
+        value = (element.textContent || '').trim();
+        element.setAttribute('data-format-value', value);
+      }
+
+      try {
+        const options = JSON.parse(element.getAttribute('data-format-options') || '{}');
+        element.textContent = this.format(type, value, options);
+      } catch (error) {
+        console.warn(`Could not format ${type} value "${value}":`, error);
+      }
+    });
+  }
+
+  /**
+   * Get a date formatter for the current locale
+   */
+  private getDateFormat(options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+    return this.getFormatter('date', options, locale => new Intl.DateTimeFormat(locale, options));
+  }
+
+  /**
+   * Get a number formatter for the current locale
+   */
+  private getNumberFormat(options: Intl.NumberFormatOptions): Intl.NumberFormat {
+    return this.getFormatter('number', options, locale => new Intl.NumberFormat(locale, options));
+  }
+
+  /**
+   * Get a cached Intl formatter, creating it for the current locale on first use
+   */
+  private getFormatter<T>(kind: string, options: object, create: (locale: string) => T): T {
+    const locale = this.getLocale();
+    const key = `${kind}:${locale}:${JSON.stringify(options)}`;
+    let formatter = this.formatters.get(key) as T | undefined;
+    if (!formatter) {
+      formatter = create(locale);
+      this.formatters.set(key, formatter);
+    }
+    return formatter;
+  }
+}
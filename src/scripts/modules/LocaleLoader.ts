@@ -0,0 +1,86 @@
+/**
+ * Locale Loader for LOFERSIL Landing Page
+ * Fetches locale JSON files and keeps a copy in the Cache API. Cached copies are
+ * revalidated with their ETag, and served as-is when the network is unavailable.
+ */
+
+import { Translations } from '../types.js';
+
+export const LOCALE_CACHE_NAME = 'lofersil-locales-v1';
+
+export class LocaleLoader {
+  private baseUrl: string;
+  private cacheName: string;
+
+  constructor(baseUrl = '/locales', cacheName = LOCALE_CACHE_NAME) {
+    this.baseUrl = baseUrl;
+    this.cacheName = cacheName;
+  }
+
+  /**
+   * Load a locale, revalidating any cached copy
+   * Throws when the locale is neither reachable nor cached
+   */
+  async load(code: string): Promise<Translations> {
+    const url = `${this.baseUrl}/${code}.json`;
+    const cached = await this.readCache(url);
+    const etag = cached?.headers.get('ETag');
+
+    let response: Response;
+    try {
+      response = etag ? await fetch(url, { headers: { 'If-None-Match': etag } }) : await fetch(url);
+    } catch (error) {
+      if (cached) {
+        console.warn(`Offline, using cached ${code} translations:`, error);
+        return (await cached.json()) as Translations;
+      }
+      throw error;
+    }
+
+    if (response.status === 304 && cached) {
+      return (await cached.json()) as Translations;
+    }
+
+    if (!response.ok) {
+      if (cached) {
+        console.warn(`Failed to revalidate ${code} translations (${response.status}), using cache`);
+        return (await cached.json()) as Translations;
+      }
+      throw new Error(
+        `Failed to load ${code} translations: ${response.status} ${response.statusText}`
+      );
+    }
+
+    await this.writeCache(url, response);
+    return (await response.json()) as Translations;
+  }
+
+  /**
+   * Get the cached response for a locale URL, if the Cache API is available
+   */
+  private async readCache(url: string): Promise<Response | undefined> {
+    if (typeof caches === 'undefined') return undefined;
+
+    try {
+      const cache = await caches.open(this.cacheName);
+      return await cache.match(url);
+    } catch (error) {
+      console.warn('Failed to read locale cache:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a copy of a locale response, if the Cache API is available
+   */
+  private async writeCache(url: string, response: Response): Promise<void> {
+    if (typeof caches === 'undefined' || typeof response.clone !== 'function') return;
+
+    try {
+      const cache = await caches.open(this.cacheName);
+      await cache.put(url, response.clone());
+    } catch (error) {
+      console.warn('Failed to write locale cache:', error);
+    }
+  }
+}
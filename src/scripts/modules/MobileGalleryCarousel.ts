@@ -4,6 +4,8 @@
  * Includes touch support, navigation dots, and accessibility features
  */
 
+import { LanguageChangeDetail, languageEvents } from './LanguageEvents.js';
+
 interface GalleryItem {
   element: HTMLElement;
   index: number;
@@ -26,6 +28,8 @@ export class MobileGalleryCarousel {
   private touchEnd: TouchPoint | null = null;
   private autoPlayInterval: number | null = null;
   private userInteraction: boolean = false;
+  private navContainer: HTMLElement | null = null;
+  private unsubscribeLanguage: (() => void) | null = null;
 
   // Configuration
   private readonly config = {
@@ -63,6 +67,7 @@ export class MobileGalleryCarousel {
     }
 
     this.createNavigation();
+    this.unsubscribeLanguage = languageEvents.subscribe(detail => this.localizeNavigation(detail));
     this.setupEventListeners();
     this.showItem(0);
     this.setupAutoPlay();
@@ -125,6 +130,19 @@ export class MobileGalleryCarousel {
     this.gallery.appendChild(navContainer);
     this.gallery.appendChild(this.prevButton);
     this.gallery.appendChild(this.nextButton);
+    this.navContainer = navContainer;
+  }
+
+  /**
+   * Translate the labels of the generated navigation
+   */
+  private localizeNavigation({ translate }: LanguageChangeDetail): void {
+    this.navContainer?.setAttribute('aria-label', translate('gallery.navigation'));
+    this.dots.forEach((dot, index) => {
+      dot.setAttribute('aria-label', translate('gallery.goToImage', { index: index + 1 }));
+    });
+    this.prevButton?.setAttribute('aria-label', translate('gallery.previous'));
+    this.nextButton?.setAttribute('aria-label', translate('gallery.next'));
   }
 
   /**
@@ -420,6 +438,7 @@ export class MobileGalleryCarousel {
     if (this.autoPlayInterval) {
       clearInterval(this.autoPlayInterval);
     }
+    this.unsubscribeLanguage?.();
 
     // Remove event listeners
     if (this.gallery) {
@@ -0,0 +1,156 @@
+/**
+ * NavigationManager Tests
+ * Scroll-spy highlighting of the section in view
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NavigationManager } from './NavigationManager.js';
+
+type ObserverCallback = (entries: Partial<IntersectionObserverEntry>[]) => void;
+
+describe('NavigationManager', () => {
+  let navigationManager: NavigationManager;
+  let observerCallback: ObserverCallback;
+  let observed: Element[];
+
+  // Report sections entering or leaving the viewport band
+  const intersect = (states: Record<string, boolean>) => {
+    observerCallback(
+      Object.entries(states).map(([id, isIntersecting]) => ({
+        target: document.getElementById(id)!,
+        isIntersecting,
+      }))
+    );
+  };
+
+  const currentLinks = () =>
+    Array.from(document.querySelectorAll('[aria-current="location"]')).map(link =>
+      link.getAttribute('href')
+    );
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <nav id="nav-menu">
+        <a href="#about" class="nav-link">About</a>
+        <a href="#features" class="nav-link">Services</a>
+        <a href="#faq" class="nav-link">FAQ</a>
+      </nav>
+      <section id="hero"></section>
+      <section id="about"></section>
+      <section id="features"></section>
+      <section id="faq"></section>
+    `;
+    window.history.replaceState({ language: 'pt' }, '', '/');
+
+    observed = [];
+    vi.stubGlobal(
+      'IntersectionObserver',
+      vi.fn().mockImplementation((callback: ObserverCallback) => {
+        observerCallback = callback;
+        return {
+          observe: (element: Element) => observed.push(element),
+          disconnect: vi.fn(),
+        };
+      })
+    );
+
+    navigationManager = new NavigationManager();
+    navigationManager.setupNavigation();
+  });
+
+  afterEach(() => {
+    navigationManager.destroy();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should observe the sections the nav links point to', () => {
+    expect(observed.map(section => section.id)).toEqual(['about', 'features', 'faq']);
+  });
+
+  it('should mark the link of the section in view without adding history entries', () => {
+    vi.useFakeTimers();
+    const historyLength = window.history.length;
+    intersect({ about: false, features: false, faq: false });
+    intersect({ features: true });
+
+    expect(currentLinks()).toEqual(['#features']);
+    expect(document.querySelector('a[href="#features"]')?.classList.contains('active')).toBe(true);
+    vi.runAllTimers();
+    expect(window.location.hash).toBe('#features');
+    expect(window.history.state).toEqual({ language: 'pt' });
+    expect(window.history.length).toBe(historyLength);
+
+    intersect({ features: false });
+    vi.runAllTimers();
+
+    expect(currentLinks()).toEqual([]);
+    expect(window.location.hash).toBe('');
+  });
+
+  it('should update the URL hash only once the section in view settles', () => {
+    vi.useFakeTimers();
+    const replaceState = vi.spyOn(window.history, 'replaceState');
+    intersect({ about: true, features: false, faq: false });
+
+    intersect({ about: false, features: true });
+    vi.advanceTimersByTime(100);
+    intersect({ features: false, faq: true });
+
+    expect(replaceState).not.toHaveBeenCalled();
+
+    vi.runAllTimers();
+
+    expect(replaceState).toHaveBeenCalledTimes(1);
+    expect(window.location.hash).toBe('#faq');
+  });
+
+  it('should keep highlighting sections when the browser refuses history updates', () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(window.history, 'replaceState').mockImplementation(() => {
+      throw new DOMException('Attempt to use history.replaceState() too often', 'SecurityError');
+    });
+    intersect({ about: true, features: false, faq: false });
+
+    intersect({ about: false, features: true });
+
+    expect(() => vi.runAllTimers()).not.toThrow();
+    expect(currentLinks()).toEqual(['#features']);
+  });
+
+  it('should keep the URL of a deep link on the first check', () => {
+    window.history.replaceState(null, '', '/#faq');
+    intersect({ about: true, features: false, faq: false });
+
+    expect(currentLinks()).toEqual(['#about']);
+    expect(window.location.hash).toBe('#faq');
+  });
+
+  it('should skip the sections passed while scrolling to a target', () => {
+    vi.useFakeTimers();
+    intersect({ about: true, features: false, faq: false });
+
+    navigationManager.markScrollTarget('faq');
+    intersect({ about: false, features: true });
+
+    expect(navigationManager.getActiveSection()).toBe('faq');
+
+    intersect({ features: false, faq: true });
+    intersect({ faq: false, features: true });
+
+    expect(navigationManager.getActiveSection()).toBe('features');
+  });
+
+  it('should fall back to the section in view if the target is never reached', () => {
+    vi.useFakeTimers();
+    intersect({ about: false, features: false, faq: true });
+
+    navigationManager.markScrollTarget('about');
+    vi.runAllTimers();
+
+    expect(navigationManager.getActiveSection()).toBe('faq');
+    expect(window.location.hash).toBe('#faq');
+  });
+});
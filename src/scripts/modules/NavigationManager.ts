@@ -3,12 +3,27 @@
  * Handles dropdown menu, navigation state, and UI interactions
  */
 
+// Band across the middle of the viewport; the section crossing it is the one being read
+const SCROLL_SPY_MARGIN = '-45% 0px -50% 0px';
+// How long a section being scrolled to stays active if the page cannot bring it into the band
+const SCROLL_TARGET_TIMEOUT = 1000;
+// How long the active section must stay put before the URL hash follows it
+// Safari throws once history is changed more than 100 times in 10 seconds
+const HASH_UPDATE_DELAY = 300;
+
 export class NavigationManager {
   private navToggle: HTMLElement | null;
   private navMenu: HTMLElement | null;
   private navbar: HTMLElement | null;
   private isMenuOpen: boolean;
   private isDesktop: boolean;
+  private scrollSpy: IntersectionObserver | null = null;
+  private spiedSections: HTMLElement[] = [];
+  private visibleSections = new Set<string>();
+  private activeSection: string | null = null;
+  private scrollTarget: string | null = null;
+  private scrollTargetTimeout?: ReturnType<typeof setTimeout>;
+  private hashUpdateTimeout?: ReturnType<typeof setTimeout>;
 
   constructor() {
     this.navToggle = null;
@@ -43,32 +58,13 @@ export class NavigationManager {
     // Navigation toggle
     this.navToggle?.addEventListener('click', () => this.toggleMobileMenu());
 
-    // Handle navigation link clicks to close mobile menu
+    // Close mobile menu when a nav link is clicked; AnchorNavigator scrolls to the section
     const navLinks = document.querySelectorAll('.nav-link');
     navLinks.forEach(link => {
-      link.addEventListener('click', e => {
-        e.preventDefault();
-
-        // Get the target href
-        const href = link.getAttribute('href');
-
-        // Close mobile menu when nav link is clicked
+      link.addEventListener('click', () => {
         if (this.isMenuOpen) {
           this.closeMobileMenu();
         }
-
-        // Smooth scroll to section if it's an anchor link
-        if (href && href.startsWith('#')) {
-          const targetElement = document.querySelector(href);
-          if (targetElement) {
-            setTimeout(() => {
-              targetElement.scrollIntoView({
-                behavior: 'smooth',
-                block: 'start',
-              });
-            }, 300); // Wait for menu close animation
-          }
-        }
       });
     });
 
@@ -197,6 +193,129 @@ export class NavigationManager {
     });
   }
 
+  /**
+   * Highlight the nav link of the section in view as the visitor scrolls
+   */
+  private setupScrollSpy(): void {
+    if (typeof IntersectionObserver === 'undefined') return;
+
+    const sections = new Set<HTMLElement>();
+    document.querySelectorAll('.nav-link[href^="#"]').forEach(link => {
+      const section = document.getElementById(link.getAttribute('href')!.slice(1));
+      if (section) sections.add(section);
+    });
+    this.spiedSections = [...sections].sort((a, b) =>
+      a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+    );
+    if (this.spiedSections.length === 0) return;
+
+    let isInitialCheck = true;
+    this.scrollSpy = new IntersectionObserver(
+      entries => {
+        entries.forEach(entry => {
+          if (entry.isIntersecting) {
+            this.visibleSections.add(entry.target.id);
+          } else {
+            this.visibleSections.delete(entry.target.id);
+          }
+        });
+        // The first check reflects the position the page loaded at, e.g. a deep link
+        this.updateActiveSection(!isInitialCheck);
+        isInitialCheck = false;
+      },
+      { rootMargin: SCROLL_SPY_MARGIN }
+    );
+    this.spiedSections.forEach(section => this.scrollSpy?.observe(section));
+  }
+
+  /**
+   * Activate the first section in the viewport band
+   * While scrolling to a target, the sections passed on the way are skipped
+   */
+  private updateActiveSection(updateHash = true): void {
+    const current = this.spiedSections.find(section => this.visibleSections.has(section.id));
+    const id = current ? current.id : null;
+
+    if (this.scrollTarget) {
+      if (id !== this.scrollTarget) return;
+      this.clearScrollTarget();
+    }
+    this.setActiveSection(id, { updateHash });
+  }
+
+  /**
+   * Mark a section the page is about to scroll to as active straight away
+   * Called by AnchorNavigator for every in-page scroll
+   */
+  markScrollTarget(id: string): void {
+    if (!this.spiedSections.some(section => section.id === id)) return;
+
+    this.setActiveSection(id);
+    this.clearScrollTarget();
+    this.scrollTarget = id;
+    this.scrollTargetTimeout = setTimeout(() => {
+      this.scrollTarget = null;
+      this.updateActiveSection();
+    }, SCROLL_TARGET_TIMEOUT);
+  }
+
+  /**
+   * Stop waiting for a section being scrolled to
+   */
+  private clearScrollTarget(): void {
+    clearTimeout(this.scrollTargetTimeout);
+    this.scrollTarget = null;
+  }
+
+  /**
+   * Mark the nav link of a section with aria-current="location" and reflect it in the URL hash
+   * The hash follows once scrolling settles on the section; see scheduleHashUpdate
+   */
+  setActiveSection(id: string | null, { updateHash = true } = {}): void {
+    if (id === this.activeSection) return;
+    this.activeSection = id;
+
+    document.querySelectorAll('.nav-link').forEach(link => {
+      const isCurrent = id !== null && link.getAttribute('href') === `#${id}`;
+      link.classList.toggle('active', isCurrent);
+      if (isCurrent) {
+        link.setAttribute('aria-current', 'location');
+      } else {
+        link.removeAttribute('aria-current');
+      }
+    });
+
+    if (updateHash) {
+      this.scheduleHashUpdate();
+    }
+  }
+
+  /**
+   * Replace the URL hash with the active section once it stops changing
+   * Replaced rather than pushed so scrolling does not add history entries
+   */
+  private scheduleHashUpdate(): void {
+    clearTimeout(this.hashUpdateTimeout);
+    this.hashUpdateTimeout = setTimeout(() => {
+      const { pathname, search } = window.location;
+      const id = this.activeSection;
+      const url = `${pathname}${search}${id ? `#${id}` : ''}`;
+      try {
+        window.history.replaceState(window.history.state, '', url);
+      } catch (error) {
+        // The hash is a convenience; the nav highlight is already up to date
+        console.warn('Could not update the URL hash:', error);
+      }
+    }, HASH_UPDATE_DELAY);
+  }
+
+  /**
+   * Get the id of the section whose nav link is active
+   */
+  getActiveSection(): string | null {
+    return this.activeSection;
+  }
+
   /**
    * Handle menu state on load
    */
@@ -219,6 +338,8 @@ export class NavigationManager {
   setupNavigation(): void {
     // Set active navigation based on current path
     this.setActiveNavigation();
+    // Follow the section in view on the landing page
+    this.setupScrollSpy();
     // Handle menu state
     this.handleMenuState();
   }
@@ -237,6 +358,16 @@ export class NavigationManager {
     }
   }
 
+  /**
+   * Stop following the section in view
+   */
+  destroy(): void {
+    this.scrollSpy?.disconnect();
+    this.scrollSpy = null;
+    this.clearScrollTarget();
+    clearTimeout(this.hashUpdateTimeout);
+  }
+
   /**
    * Get navigation elements for external access
    */
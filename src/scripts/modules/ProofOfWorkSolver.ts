@@ -0,0 +1,142 @@
+/**
+ * Proof of Work Solver for LOFERSIL Landing Page
+ * Fetches a challenge from the contact API and solves it while the visitor fills in the form.
+ * Solving runs in a Web Worker when available and falls back to the main thread in small
+ * chunks otherwise. Any failure resolves to null so the form can still be submitted.
+ */
+
+import {
+  ProofOfWorkChallenge,
+  ProofOfWorkSolution,
+  canSolveProofOfWork,
+  solveChallenge,
+} from '../proofOfWork.js';
+
+// Attempts between yields when solving on the main thread
+const MAIN_THREAD_CHUNK = 500;
+
+export class ProofOfWorkSolver {
+  private endpoint: string;
+  private pending: Promise<ProofOfWorkSolution | null> | null = null;
+  private expiresAt = 0;
+  private worker: Worker | null = null;
+
+  constructor(endpoint: string) {
+    this.endpoint = endpoint;
+  }
+
+  /**
+   * Start fetching and solving a challenge, if not already in progress
+   */
+  start(): void {
+    // expiresAt is 0 while the challenge is still being fetched
+    if (this.pending && (!this.expiresAt || Date.now() < this.expiresAt)) {
+      return;
+    }
+    this.expiresAt = 0;
+    this.pending = this.fetchAndSolve();
+  }
+
+  /**
+   * Get a solution, waiting at most `timeout` ms for solving to finish
+   * Each solution is single-use: the next call starts a fresh challenge
+   */
+  async getSolution(timeout: number): Promise<ProofOfWorkSolution | null> {
+    this.start();
+    const pending = this.pending;
+    this.pending = null;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const expired = new Promise<null>(resolve => {
+      timer = setTimeout(() => resolve(null), timeout);
+    });
+
+    try {
+      return await Promise.race([pending, expired]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Stop any running worker
+   */
+  destroy(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending = null;
+  }
+
+  /**
+   * Fetch a challenge and solve it
+   */
+  private async fetchAndSolve(): Promise<ProofOfWorkSolution | null> {
+    if (!canSolveProofOfWork()) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(this.endpoint, { headers: { Accept: 'application/json' } });
+      if (!response.ok) {
+        // Challenge disabled or unavailable: submit without a proof
+        return null;
+      }
+
+      const challenge = (await response.json()) as ProofOfWorkChallenge;
+      this.expiresAt = challenge.expiresAt;
+      return await this.solve(challenge);
+    } catch (error) {
+      console.warn('Proof of work challenge failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Solve in a worker, or on the main thread when workers are unavailable
+   */
+  private solve(challenge: ProofOfWorkChallenge): Promise<ProofOfWorkSolution | null> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return solveChallenge(challenge, { yieldEvery: MAIN_THREAD_CHUNK });
+    }
+
+    return new Promise(resolve => {
+      const cleanup = () => {
+        worker.removeEventListener('message', handleMessage);
+        worker.removeEventListener('error', handleError);
+      };
+      const handleMessage = (event: MessageEvent<{ solution: ProofOfWorkSolution | null }>) => {
+        cleanup();
+        resolve(event.data.solution);
+      };
+      // e.g. module workers unsupported: drop the worker and solve on the main thread
+      const handleError = () => {
+        cleanup();
+        worker.terminate();
+        this.worker = null;
+        resolve(solveChallenge(challenge, { yieldEvery: MAIN_THREAD_CHUNK }));
+      };
+      worker.addEventListener('message', handleMessage);
+      worker.addEventListener('error', handleError);
+      worker.postMessage(challenge);
+    });
+  }
+
+  /**
+   * Lazily create the solver worker
+   */
+  private getWorker(): Worker | null {
+    if (this.worker || typeof Worker === 'undefined') {
+      return this.worker;
+    }
+
+    try {
+      this.worker = new Worker(new URL('./proofOfWorkWorker.js', import.meta.url), {
+        type: 'module',
+      });
+    } catch (error) {
+      console.warn('Proof of work worker unavailable, solving on the main thread:', error);
+    }
+    return this.worker;
+  }
+}
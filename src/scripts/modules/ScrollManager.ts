@@ -3,6 +3,7 @@
  * Uses Intersection Observer for efficient scroll handling
  */
 
+import { AnchorNavigator } from './AnchorNavigator.js';
 import { NavigationManager } from './NavigationManager.js';
 
 const SCROLL_THRESHOLD = 100;
@@ -11,12 +12,17 @@ export class ScrollManager {
   private hero: HTMLElement | null = null;
   private heroImage: HTMLElement | null = null;
   private navigationManager: NavigationManager;
+  private anchorNavigator: AnchorNavigator;
   private observers: IntersectionObserver[] = [];
   private ticking = false;
   private isMobileDevice = false;
 
-  constructor(navigationManager: NavigationManager) {
+  constructor(
+    navigationManager: NavigationManager,
+    anchorNavigator: AnchorNavigator = new AnchorNavigator(navigationManager)
+  ) {
     this.navigationManager = navigationManager;
+    this.anchorNavigator = anchorNavigator;
     this.detectMobileDevice();
     this.setupDOMElements();
     this.setupScrollEffects();
@@ -250,16 +256,10 @@ export class ScrollManager {
   }
 
   /**
-   * Smooth scroll to element
+   * Smooth scroll to element below the fixed header
    */
   scrollToElement(selector: string): void {
-    const element = document.querySelector(selector);
-    if (element) {
-      element.scrollIntoView({
-        behavior: 'smooth',
-        block: 'start',
-      });
-    }
+    this.anchorNavigator.scrollTo(selector);
   }
 
   /**
@@ -0,0 +1,91 @@
+/**
+ * Submission Throttle for LOFERSIL Landing Page
+ * Limits how often the contact form can be submitted from this browser and rejects
+ * repeated identical messages. State lives in localStorage so it survives reloads.
+ */
+
+export interface SubmissionThrottleConfig {
+  maxSubmissions: number;
+  windowMs: number;
+  storageKey?: string;
+}
+
+export type ThrottleVerdict = 'allowed' | 'rateLimited' | 'duplicate';
+
+interface SubmissionRecord {
+  at: number;
+  fingerprint: string;
+}
+
+const DEFAULT_STORAGE_KEY = 'lofersil-contact-submissions';
+
+export class SubmissionThrottle {
+  private config: SubmissionThrottleConfig;
+  private readonly storageKey: string;
+
+  constructor(config: SubmissionThrottleConfig) {
+    this.config = config;
+    this.storageKey = config.storageKey || DEFAULT_STORAGE_KEY;
+  }
+
+  /**
+   * Hash a serialized submission so identical messages can be recognised
+   */
+  static fingerprint(payload: string): string {
+    let hash = 5381;
+    for (let i = 0; i < payload.length; i++) {
+      hash = ((hash << 5) + hash + payload.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+  }
+
+  /**
+   * Check whether a submission may be sent now
+   */
+  check(fingerprint: string, now = Date.now()): ThrottleVerdict {
+    const records = this.load(now);
+
+    if (records.some(record => record.fingerprint === fingerprint)) {
+      return 'duplicate';
+    }
+    if (records.length >= this.config.maxSubmissions) {
+      return 'rateLimited';
+    }
+    return 'allowed';
+  }
+
+  /**
+   * Remember a submission that was sent (or queued)
+   */
+  record(fingerprint: string, now = Date.now()): void {
+    const records = this.load(now);
+    records.push({ at: now, fingerprint });
+    this.save(records);
+  }
+
+  /**
+   * Read the submissions still inside the window
+   */
+  private load(now: number): SubmissionRecord[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey) || '[]');
+      return Array.isArray(stored)
+        ? stored.filter((record: SubmissionRecord) => now - record.at < this.config.windowMs)
+        : [];
+    } catch (error) {
+      console.warn('Failed to read submission history from localStorage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Persist the submission history
+   */
+  private save(records: SubmissionRecord[]): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(records));
+    } catch (error) {
+      console.warn('Failed to save submission history to localStorage:', error);
+    }
+  }
+}
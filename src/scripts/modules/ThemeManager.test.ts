@@ -3,8 +3,10 @@
  * Comprehensive unit tests for theme management functionality
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ThemeManager } from '../modules/ThemeManager.js';
+import { languageEvents } from '../modules/LanguageEvents.js';
+import { DEFAULT_THEMES, ThemeRegistry, isChristmasSeason } from '../modules/ThemeRegistry.js';
 
 describe('ThemeManager', () => {
   let themeManager: ThemeManager;
@@ -13,6 +15,7 @@ describe('ThemeManager', () => {
     // Reset DOM
     document.documentElement.innerHTML = '';
     document.documentElement.removeAttribute('data-theme');
+    document.documentElement.removeAttribute('data-bootstrapped');
 
     // Clear localStorage
     localStorage.clear();
@@ -71,7 +74,8 @@ describe('ThemeManager', () => {
       `;
       document.body.appendChild(button);
 
-      themeManager = new ThemeManager();
+      // Two themes keep the toggle button instead of the picker
+      themeManager = new ThemeManager(new ThemeRegistry(DEFAULT_THEMES.slice(0, 2)));
     });
 
     it('should toggle theme from light to dark', () => {
@@ -93,6 +97,129 @@ describe('ThemeManager', () => {
       expect(document.documentElement.getAttribute('data-theme')).toBe('light');
       expect(localStorage.getItem('lofersil-theme')).toBe('light');
     });
+
+    it('should re-localize the toggle label when the language changes', () => {
+      const button = document.getElementById('theme-toggle');
+      expect(button?.getAttribute('aria-label')).toBe('Switch to dark theme');
+
+      const labels: Record<string, string> = {
+        'theme.switchToDark': 'Mudar para o tema escuro',
+        'theme.switchToLight': 'Mudar para o tema claro',
+      };
+      languageEvents.emit({
+        language: 'pt',
+        previousLanguage: 'en',
+        locale: 'pt-PT',
+        translate: key => labels[key],
+      });
+      expect(button?.getAttribute('aria-label')).toBe('Mudar para o tema escuro');
+
+      themeManager.toggleTheme();
+      expect(button?.getAttribute('aria-label')).toBe('Mudar para o tema claro');
+      themeManager.destroy();
+    });
+  });
+
+  describe('Theme Registry', () => {
+    const festiveTheme = DEFAULT_THEMES.find(theme => theme.id === 'festive')!;
+
+    it('should replace the toggle with a picker when more than two themes are available', () => {
+      const button = document.createElement('button');
+      button.id = 'theme-toggle';
+      document.body.appendChild(button);
+
+      themeManager = new ThemeManager(new ThemeRegistry(DEFAULT_THEMES.slice(0, 3)));
+      const picker = document.getElementById('theme-picker') as HTMLSelectElement;
+
+      expect(document.getElementById('theme-toggle')).toBeNull();
+      expect(Array.from(picker.options).map(option => option.value)).toEqual([
+        'light',
+        'dark',
+        'high-contrast',
+      ]);
+
+      picker.value = 'high-contrast';
+      picker.dispatchEvent(new Event('change'));
+      expect(themeManager.getCurrentTheme()).toBe('high-contrast');
+      expect(localStorage.getItem('lofersil-theme')).toBe('high-contrast');
+    });
+
+    it('should apply theme tokens and meta colour and remove them on switch', () => {
+      const meta = document.createElement('meta');
+      meta.name = 'theme-color';
+      document.head.appendChild(meta);
+      const root = document.documentElement;
+
+      themeManager = new ThemeManager();
+      themeManager.setTheme('high-contrast');
+      expect(root.style.getPropertyValue('--brand-primary')).toBe('#0a5c0a');
+      expect(meta.getAttribute('content')).toBe('#000000');
+
+      themeManager.setTheme('dark');
+      expect(root.style.getPropertyValue('--brand-primary')).toBe('');
+      expect(meta.getAttribute('content')).toBe('#0f172a');
+    });
+
+    it('should prefer high contrast when the system asks for more contrast', () => {
+      window.matchMedia = vi.fn().mockImplementation((query: string) => ({
+        matches: query === '(prefers-contrast: more)' || query === '(prefers-color-scheme: dark)',
+        media: query,
+        addEventListener: vi.fn(),
+      }));
+
+      themeManager = new ThemeManager();
+
+      expect(themeManager.getCurrentTheme()).toBe('high-contrast');
+    });
+
+    it('should only offer seasonal themes in season', () => {
+      const registry = new ThemeRegistry();
+
+      expect(isChristmasSeason(new Date(2024, 11, 24))).toBe(true);
+      expect(isChristmasSeason(new Date(2025, 0, 6))).toBe(true);
+      expect(isChristmasSeason(new Date(2025, 0, 7))).toBe(false);
+      expect(registry.getAvailable(new Date(2024, 6, 1))).not.toContain(festiveTheme);
+      expect(registry.getAvailable(new Date(2024, 11, 1))).toContain(festiveTheme);
+    });
+
+    it('should ignore unknown themes', () => {
+      themeManager = new ThemeManager();
+      themeManager.setTheme('sepia');
+
+      expect(themeManager.getCurrentTheme()).toBe('light');
+      expect(localStorage.getItem('lofersil-theme')).toBeNull();
+    });
+  });
+
+  describe('Bootstrap Hydration', () => {
+    it('should adopt the theme applied by the bootstrap script', () => {
+      localStorage.setItem('lofersil-theme', 'light');
+      document.documentElement.setAttribute('data-theme', 'dark');
+      document.documentElement.setAttribute('data-bootstrapped', '');
+      const eventHandler = vi.fn();
+      window.addEventListener('themeChange', eventHandler);
+
+      themeManager = new ThemeManager(new ThemeRegistry(DEFAULT_THEMES.slice(0, 2)));
+
+      expect(themeManager.getCurrentTheme()).toBe('dark');
+      expect(document.documentElement.getAttribute('data-theme')).toBe('dark');
+      expect(eventHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ detail: { theme: 'dark' } })
+      );
+      window.removeEventListener('themeChange', eventHandler);
+    });
+
+    it('should replace a bootstrapped theme that is no longer available', () => {
+      const registry = new ThemeRegistry(DEFAULT_THEMES);
+      vi.spyOn(registry, 'isAvailable').mockImplementation(id => id !== 'festive');
+      document.documentElement.setAttribute('data-theme', 'festive');
+      document.documentElement.setAttribute('data-bootstrapped', '');
+
+      themeManager = new ThemeManager(registry);
+
+      expect(themeManager.getCurrentTheme()).toBe('light');
+      expect(document.documentElement.getAttribute('data-theme')).toBe('light');
+    });
   });
 
   describe('setTheme', () => {
@@ -153,6 +280,52 @@ describe('ThemeManager', () => {
     });
   });
 
+  describe('Cross-tab Sync', () => {
+    beforeEach(() => {
+      themeManager = new ThemeManager();
+    });
+
+    afterEach(() => {
+      themeManager.destroy();
+    });
+
+    const changeThemeInOtherTab = (theme: string | null) => {
+      if (theme) {
+        localStorage.setItem('lofersil-theme', theme);
+      } else {
+        localStorage.removeItem('lofersil-theme');
+      }
+      window.dispatchEvent(new StorageEvent('storage', { key: 'lofersil-theme', newValue: theme }));
+    };
+
+    it('should apply a theme saved in another tab', () => {
+      const eventHandler = vi.fn();
+      window.addEventListener('themeChange', eventHandler);
+
+      changeThemeInOtherTab('dark');
+
+      expect(themeManager.getCurrentTheme()).toBe('dark');
+      expect(document.documentElement.getAttribute('data-theme')).toBe('dark');
+      expect((eventHandler.mock.calls[0][0] as CustomEvent).detail.theme).toBe('dark');
+      window.removeEventListener('themeChange', eventHandler);
+    });
+
+    it('should return to the system preference when another tab resets it', () => {
+      changeThemeInOtherTab('dark');
+      changeThemeInOtherTab(null);
+
+      expect(themeManager.getCurrentTheme()).toBe('light');
+    });
+
+    it('should ignore unrelated and unknown values', () => {
+      localStorage.setItem('language', 'en');
+      window.dispatchEvent(new StorageEvent('storage', { key: 'language', newValue: 'en' }));
+      changeThemeInOtherTab('invalid-theme');
+
+      expect(themeManager.getCurrentTheme()).toBe('light');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle localStorage errors gracefully', () => {
       // Mock localStorage to throw errors
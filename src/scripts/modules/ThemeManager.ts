@@ -1,23 +1,54 @@
 /**
  * Theme Manager for LOFERSIL Landing Page
  * Handles theme switching, persistence, and system preference detection
+ * Themes come from the theme registry; with more than two themes the toggle button
+ * is replaced by a picker.
  */
 
+import { Theme } from '../types.js';
+import { LanguageChangeDetail, languageEvents } from './LanguageEvents.js';
+import { THEME_STORAGE_KEY, ThemeRegistry, themeRegistry } from './ThemeRegistry.js';
+
+const SYSTEM_PREFERENCE_QUERIES = ['(prefers-color-scheme: dark)', '(prefers-contrast: more)'];
+
 export class ThemeManager {
-  private currentTheme: 'light' | 'dark' = 'light';
+  private currentTheme = 'light';
   private themeToggle: HTMLElement | null = null;
-  private readonly THEME_KEY = 'lofersil-theme';
+  private themePicker: HTMLSelectElement | null = null;
+  private translate: LanguageChangeDetail['translate'] | null = null;
+  private readonly registry: ThemeRegistry;
+  private readonly unsubscribeLanguage: () => void;
+  private readonly THEME_KEY = THEME_STORAGE_KEY;
+  private readonly storageHandler = (event: StorageEvent) => this.handleStorageChange(event);
 
-  constructor() {
+  constructor(registry: ThemeRegistry = themeRegistry) {
+    this.registry = registry;
     this.initializeTheme();
     this.setupThemeToggle();
     this.setupSystemPreferenceListener();
+    window.addEventListener('storage', this.storageHandler);
+    this.unsubscribeLanguage = languageEvents.subscribe(({ translate }) => {
+      this.translate = translate;
+      this.updateToggleButton();
+    });
   }
 
   /**
    * Initialize theme based on saved preference or system preference
    */
   private initializeTheme(): void {
+    // Hydrate from the theme the inline bootstrap script applied before first paint
+    const root = document.documentElement;
+    const bootstrapped = root.hasAttribute('data-bootstrapped') && root.getAttribute('data-theme');
+    if (bootstrapped && this.registry.get(bootstrapped)) {
+      this.currentTheme = bootstrapped;
+      if (this.registry.isAvailable(bootstrapped)) {
+        // The tokens are already in place; listeners still expect the initial event
+        this.dispatchThemeChange(bootstrapped);
+        return;
+      }
+    }
+
     const savedTheme = this.getSavedTheme();
     const systemTheme = this.getSystemTheme();
 
@@ -29,10 +60,10 @@ export class ThemeManager {
   /**
    * Get saved theme from localStorage
    */
-  private getSavedTheme(): 'light' | 'dark' | null {
+  private getSavedTheme(): string | null {
     try {
       const saved = localStorage.getItem(this.THEME_KEY);
-      return saved === 'dark' || saved === 'light' ? saved : null;
+      return saved && this.registry.isAvailable(saved) ? saved : null;
     } catch (error) {
       console.warn('Failed to read theme from localStorage:', error);
       return null;
@@ -40,45 +71,100 @@ export class ThemeManager {
   }
 
   /**
-   * Get system theme preference
+   * Get system theme preference, with increased contrast taking precedence over dark mode
    */
-  private getSystemTheme(): 'light' | 'dark' {
-    return window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
+  private getSystemTheme(): string {
+    if (
+      this.registry.isAvailable('high-contrast') &&
+      window.matchMedia('(prefers-contrast: more)').matches
+    ) {
+      return 'high-contrast';
+    }
+    if (
+      this.registry.isAvailable('dark') &&
+      window.matchMedia('(prefers-color-scheme: dark)').matches
+    ) {
+      return 'dark';
+    }
+    return this.registry.getDefault().id;
   }
 
   /**
    * Apply theme to document
    */
-  private applyTheme(theme: 'light' | 'dark'): void {
-    this.currentTheme = theme;
-    document.documentElement.setAttribute('data-theme', theme);
+  private applyTheme(id: string): void {
+    const theme = this.registry.get(id) || this.registry.getDefault();
+    const root = document.documentElement;
+
+    // Swap the previous theme's tokens for the new ones
+    Object.keys(this.registry.get(this.currentTheme)?.tokens || {}).forEach(name => {
+      root.style.removeProperty(name);
+    });
+    Object.entries(theme.tokens).forEach(([name, value]) => root.style.setProperty(name, value));
+    root.style.setProperty('color-scheme', theme.colorScheme);
+
+    this.currentTheme = theme.id;
+    root.setAttribute('data-theme', theme.id);
 
     // Update meta theme-color for mobile browsers
     const metaThemeColor = document.querySelector('meta[name="theme-color"]');
     if (metaThemeColor) {
-      metaThemeColor.setAttribute('content', theme === 'dark' ? '#0f172a' : '#ffffff');
+      metaThemeColor.setAttribute('content', theme.metaColor);
     }
 
-    // Dispatch custom event for other components to react
-    window.dispatchEvent(new CustomEvent('themeChange', { detail: { theme } }));
+    this.dispatchThemeChange(theme.id);
+  }
+
+  /**
+   * Dispatch custom event for other components to react
+   */
+  private dispatchThemeChange(id: string): void {
+    window.dispatchEvent(new CustomEvent('themeChange', { detail: { theme: id } }));
   }
 
   /**
-   * Setup theme toggle button
+   * Setup theme toggle button, or a picker when more than two themes are available
    */
   private setupThemeToggle(): void {
-    this.themeToggle = document.getElementById('theme-toggle');
-    if (this.themeToggle) {
-      this.themeToggle.addEventListener('click', () => this.toggleTheme());
-      this.updateToggleButton();
+    const toggle = document.getElementById('theme-toggle');
+    if (!toggle) return;
+
+    if (this.registry.getAvailable().length > 2) {
+      this.setupThemePicker(toggle);
+      return;
     }
+
+    this.themeToggle = toggle;
+    this.themeToggle.addEventListener('click', () => this.toggleTheme());
+    this.updateToggleButton();
   }
 
   /**
-   * Toggle between light and dark themes
+   * Replace the toggle button with a dropdown listing every available theme
+   */
+  private setupThemePicker(toggle: HTMLElement): void {
+    const picker = document.createElement('select');
+    picker.id = 'theme-picker';
+    picker.className = 'theme-picker';
+
+    this.registry.getAvailable().forEach(theme => {
+      const option = document.createElement('option');
+      option.value = theme.id;
+      picker.appendChild(option);
+    });
+
+    picker.addEventListener('change', () => this.setTheme(picker.value));
+    toggle.replaceWith(picker);
+    this.themePicker = picker;
+    this.updateToggleButton();
+  }
+
+  /**
+   * Toggle between the light and dark themes
    */
   toggleTheme(): void {
-    const newTheme = this.currentTheme === 'light' ? 'dark' : 'light';
+    const isDark = this.registry.get(this.currentTheme)?.colorScheme === 'dark';
+    const newTheme = isDark ? 'light' : 'dark';
     this.applyTheme(newTheme);
     this.saveTheme(newTheme);
     this.updateToggleButton();
@@ -87,7 +173,7 @@ export class ThemeManager {
   /**
    * Save theme preference to localStorage
    */
-  private saveTheme(theme: 'light' | 'dark'): void {
+  private saveTheme(theme: string): void {
     try {
       localStorage.setItem(this.THEME_KEY, theme);
     } catch (error) {
@@ -96,15 +182,20 @@ export class ThemeManager {
   }
 
   /**
-   * Update toggle button appearance
+   * Update toggle button or picker appearance
    */
   private updateToggleButton(): void {
+    if (this.themePicker) {
+      this.updateThemePicker(this.themePicker);
+    }
+
     if (this.themeToggle) {
       const sunIcon = this.themeToggle.querySelector('.theme-toggle-icon.sun');
       const moonIcon = this.themeToggle.querySelector('.theme-toggle-icon.moon');
+      const isDark = this.registry.get(this.currentTheme)?.colorScheme === 'dark';
 
       if (sunIcon && moonIcon) {
-        if (this.currentTheme === 'dark') {
+        if (isDark) {
           sunIcon.setAttribute('aria-hidden', 'true');
           moonIcon.setAttribute('aria-hidden', 'false');
         } else {
@@ -114,57 +205,105 @@ export class ThemeManager {
       }
 
       // Update ARIA label
+      const nextTheme = isDark ? 'light' : 'dark';
       this.themeToggle.setAttribute(
         'aria-label',
-        `Switch to ${this.currentTheme === 'light' ? 'dark' : 'light'} theme`
+        this.translate
+          ? this.translate(nextTheme === 'dark' ? 'theme.switchToDark' : 'theme.switchToLight')
+          : `Switch to ${nextTheme} theme`
       );
     }
   }
 
   /**
-   * Setup listener for system theme preference changes
+   * Select the current theme and label the picker options in the current language
+   */
+  private updateThemePicker(picker: HTMLSelectElement): void {
+    Array.from(picker.options).forEach(option => {
+      const theme = this.registry.get(option.value);
+      if (theme) {
+        option.textContent = this.translate ? this.translate(theme.labelKey) : theme.name;
+      }
+    });
+    picker.value = this.currentTheme;
+    picker.setAttribute('aria-label', this.translate ? this.translate('theme.picker') : 'Theme');
+  }
+
+  /**
+   * Setup listeners for system color scheme and contrast preference changes
    */
   private setupSystemPreferenceListener(): void {
-    const mediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
-
-    // Modern browsers
-    if (mediaQuery.addEventListener) {
-      mediaQuery.addEventListener('change', e => {
-        // Only update if no saved preference exists
-        if (!this.getSavedTheme()) {
-          const newTheme = e.matches ? 'dark' : 'light';
-          this.applyTheme(newTheme);
-          this.updateToggleButton();
-        }
-      });
-    } else {
-      // Fallback for older browsers
-      mediaQuery.addListener(e => {
-        if (!this.getSavedTheme()) {
-          const newTheme = e.matches ? 'dark' : 'light';
-          this.applyTheme(newTheme);
-          this.updateToggleButton();
-        }
-      });
+    const handleChange = () => {
+      // Only update if no saved preference exists
+      if (!this.getSavedTheme()) {
+        this.applyTheme(this.getSystemTheme());
+        this.updateToggleButton();
+      }
+    };
+
+    SYSTEM_PREFERENCE_QUERIES.forEach(query => {
+      const mediaQuery = window.matchMedia(query);
+
+      // Modern browsers
+      if (mediaQuery.addEventListener) {
+        mediaQuery.addEventListener('change', handleChange);
+      } else {
+        // Fallback for older browsers
+        mediaQuery.addListener(handleChange);
+      }
+    });
+  }
+
+  /**
+   * Follow a theme saved or reset in another tab
+   * Storage events only fire in the other tabs, so this never echoes the tab's own changes
+   */
+  private handleStorageChange(event: StorageEvent): void {
+    // A null key means the other tab cleared localStorage
+    if (event.key !== null && event.key !== this.THEME_KEY) return;
+
+    const theme = this.getSavedTheme() || this.getSystemTheme();
+    if (theme !== this.currentTheme) {
+      this.applyTheme(theme);
+      this.updateToggleButton();
     }
   }
 
   /**
    * Get current theme
    */
-  getCurrentTheme(): 'light' | 'dark' {
+  getCurrentTheme(): string {
     return this.currentTheme;
   }
 
+  /**
+   * Get the themes available today
+   */
+  getThemes(): Theme[] {
+    return this.registry.getAvailable();
+  }
+
   /**
    * Set theme programmatically
    */
-  setTheme(theme: 'light' | 'dark'): void {
+  setTheme(theme: string): void {
+    if (!this.registry.isAvailable(theme)) {
+      console.warn(`Unknown theme: ${theme}`);
+      return;
+    }
     this.applyTheme(theme);
     this.saveTheme(theme);
     this.updateToggleButton();
   }
 
+  /**
+   * Stop re-localizing the toggle button and following other tabs
+   */
+  destroy(): void {
+    this.unsubscribeLanguage();
+    window.removeEventListener('storage', this.storageHandler);
+  }
+
   /**
    * Reset to system preference
    */
@@ -0,0 +1,138 @@
+/**
+ * Theme Registry for LOFERSIL Landing Page
+ * Lists the themes ThemeManager can apply. Each theme declares the CSS custom
+ * properties it overrides and its theme-color meta value; light and dark keep their
+ * palettes in main.css ([data-theme='dark']), so they declare no extra tokens.
+ */
+
+import { Theme, ThemeSeason } from '../types.js';
+
+// localStorage key of the visitor's chosen theme
+export const THEME_STORAGE_KEY = 'lofersil-theme';
+
+// Christmas season, 1 December – 6 January
+export const CHRISTMAS_SEASON: ThemeSeason = { start: [12, 1], end: [1, 6] };
+
+/**
+ * Whether a date falls in a season; mirrored by the inline bootstrap script
+ */
+export function isInSeason(date: Date, { start, end }: ThemeSeason): boolean {
+  const day = (date.getMonth() + 1) * 100 + date.getDate();
+  const first = start[0] * 100 + start[1];
+  const last = end[0] * 100 + end[1];
+  return first <= last ? day >= first && day <= last : day >= first || day <= last;
+}
+
+/**
+ * Whether a date falls in the Christmas season
+ */
+export function isChristmasSeason(date: Date): boolean {
+  return isInSeason(date, CHRISTMAS_SEASON);
+}
+
+export const DEFAULT_THEMES: Theme[] = [
+  {
+    id: 'light',
+    name: 'Light',
+    labelKey: 'theme.names.light',
+    colorScheme: 'light',
+    metaColor: '#ffffff',
+    tokens: {},
+  },
+  {
+    id: 'dark',
+    name: 'Dark',
+    labelKey: 'theme.names.dark',
+    colorScheme: 'dark',
+    metaColor: '#0f172a',
+    tokens: {},
+  },
+  {
+    id: 'high-contrast',
+    name: 'High contrast',
+    labelKey: 'theme.names.highContrast',
+    colorScheme: 'light',
+    metaColor: '#000000',
+    // Brand and text colours reach at least 7:1 on white (WCAG AAA)
+    tokens: {
+      '--brand-primary': '#0a5c0a',
+      '--brand-primary-dark': '#063d06',
+      '--brand-primary-light': '#0a5c0a',
+      '--brand-accent': '#8a4b00',
+      '--gray-400': '#4b5563',
+      '--gray-500': '#374151',
+      '--gray-600': '#1f2937',
+      '--gray-700': '#111827',
+      '--text-secondary': '#000000',
+      '--text-muted': '#1f2937',
+      '--focus-ring': 'rgba(0, 0, 0, 0.8)',
+    },
+  },
+  {
+    id: 'festive',
+    name: 'Festive',
+    labelKey: 'theme.names.festive',
+    colorScheme: 'light',
+    metaColor: '#b91c1c',
+    tokens: {
+      '--brand-primary': '#b91c1c',
+      '--brand-primary-dark': '#7f1d1d',
+      '--brand-primary-light': '#dc2626',
+      '--brand-accent': '#ca8a04',
+    },
+    season: CHRISTMAS_SEASON,
+  },
+];
+
+export class ThemeRegistry {
+  private themes = new Map<string, Theme>();
+  private defaultId: string;
+
+  constructor(themes: Theme[] = DEFAULT_THEMES, defaultId = themes[0]?.id) {
+    themes.forEach(theme => this.register(theme));
+    this.defaultId = defaultId;
+  }
+
+  /**
+   * Register a theme, replacing any existing entry with the same id
+   */
+  register(theme: Theme): void {
+    this.themes.set(theme.id, theme);
+  }
+
+  /**
+   * Get a theme by id
+   */
+  get(id: string): Theme | undefined {
+    return this.themes.get(id);
+  }
+
+  /**
+   * Check whether a theme is registered and available on the given date
+   */
+  isAvailable(id: string, date = new Date()): boolean {
+    const theme = this.themes.get(id);
+    return (
+      !!theme &&
+      (!theme.season || isInSeason(date, theme.season)) &&
+      (!theme.isAvailable || theme.isAvailable(date))
+    );
+  }
+
+  /**
+   * Get the themes available on the given date in registration order
+   */
+  getAvailable(date = new Date()): Theme[] {
+    return [...this.themes.values()].filter(theme => this.isAvailable(theme.id, date));
+  }
+
+  /**
+   * Get the default theme
+   */
+  getDefault(): Theme {
+    return this.themes.get(this.defaultId) || [...this.themes.values()][0];
+  }
+}
+
+// Shared registry used by the page
+export const themeRegistry = new ThemeRegistry();
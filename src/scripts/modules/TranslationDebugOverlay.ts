@@ -0,0 +1,108 @@
+/**
+ * Translation Debug Overlay for LOFERSIL Landing Page
+ * Development aid that outlines elements TranslationManager flagged with
+ * data-translation-missing and shows a counter badge. Clicking the badge scrolls
+ * to the next untranslated element.
+ */
+
+import { languageEvents } from './LanguageEvents.js';
+
+const OVERLAY_STYLES = `
+  [data-translation-missing] {
+    outline: 2px dashed #dc2626 !important;
+    outline-offset: 2px;
+  }
+  .translation-debug-badge {
+    position: fixed;
+    bottom: 1rem;
+    left: 1rem;
+    z-index: 10000;
+    padding: 0.25rem 0.5rem;
+    border: 0;
+    border-radius: 4px;
+    background: #dc2626;
+    color: #fff;
+    font: 12px/1.4 monospace;
+    cursor: pointer;
+  }
+`;
+
+export class TranslationDebugOverlay {
+  private style: HTMLStyleElement | null = null;
+  private badge: HTMLButtonElement | null = null;
+  private nextIndex = 0;
+  private unsubscribeLanguage: (() => void) | null = null;
+  private readonly refreshHandler = () => this.refresh();
+  private readonly badgeClickHandler = () => this.revealNext();
+
+  /**
+   * Inject the overlay and start listening for translation updates
+   */
+  initialize(): void {
+    this.style = document.createElement('style');
+    this.style.textContent = OVERLAY_STYLES;
+    document.head.appendChild(this.style);
+
+    this.badge = document.createElement('button');
+    this.badge.type = 'button';
+    this.badge.className = 'translation-debug-badge';
+    this.badge.addEventListener('click', this.badgeClickHandler);
+    document.body.appendChild(this.badge);
+
+    window.addEventListener('translationMissing', this.refreshHandler);
+    this.unsubscribeLanguage = languageEvents.subscribe(this.refreshHandler);
+    this.refresh();
+  }
+
+  /**
+   * Update the badge from the elements currently flagged
+   */
+  refresh(): void {
+    if (!this.badge) return;
+
+    const elements = this.getUntranslatedElements();
+    const keys = new Set(
+      elements.flatMap(element =>
+        (element.getAttribute('data-translation-missing') || '').split(' ')
+      )
+    );
+
+    this.badge.hidden = elements.length === 0;
+    this.badge.textContent = `${elements.length} untranslated (${document.documentElement.lang})`;
+    this.badge.title = [...keys].join('\n');
+    this.nextIndex = 0;
+  }
+
+  /**
+   * Remove the overlay and its listeners
+   */
+  destroy(): void {
+    window.removeEventListener('translationMissing', this.refreshHandler);
+    this.unsubscribeLanguage?.();
+    this.unsubscribeLanguage = null;
+    this.badge?.removeEventListener('click', this.badgeClickHandler);
+    this.badge?.remove();
+    this.style?.remove();
+    this.badge = null;
+    this.style = null;
+  }
+
+  /**
+   * Scroll to the next untranslated element, cycling through them
+   */
+  private revealNext(): void {
+    const elements = this.getUntranslatedElements();
+    if (elements.length === 0) return;
+
+    const element = elements[this.nextIndex % elements.length];
+    this.nextIndex++;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }
+
+  /**
+   * Get the elements flagged by TranslationManager
+   */
+  private getUntranslatedElements(): Element[] {
+    return Array.from(document.querySelectorAll('[data-translation-missing]'));
+  }
+}
@@ -3,8 +3,9 @@
  * Comprehensive unit tests for translation management functionality
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { TranslationManager } from '../modules/TranslationManager.js';
+import { DEFAULT_LANGUAGES, LanguageRegistry } from '../modules/LanguageRegistry.js';
 
 describe('TranslationManager', () => {
   let translationManager: TranslationManager;
@@ -20,6 +21,22 @@ describe('TranslationManager', () => {
         home: 'Início',
         about: 'Sobre',
       },
+      products: {
+        count: '{count, plural, =0 {Sem produtos} one {# produto} other {# produtos}}',
+        welcome: 'Olá, {name}!',
+      },
+      alt: {
+        storeFront: 'Frente da Loja LOFERSIL',
+      },
+      faq: {
+        answer: 'Ligue para <a href="tel:+351213531555">+351 21 353 1555</a>.',
+        unsafeLink: 'javascript:alert(1)',
+      },
+    },
+    'en-GB': {
+      hero: {
+        title: 'Welcome to LOFERSIL, mate',
+      },
     },
     en: {
       hero: {
@@ -37,13 +54,14 @@ describe('TranslationManager', () => {
     // Reset localStorage
     localStorage.clear();
 
-    // Reset document
+    // Reset document and URL
     document.documentElement.innerHTML = '';
     document.documentElement.lang = '';
+    window.history.replaceState(null, '', '/');
 
     // Mock fetch for loading translations
     global.fetch = vi.fn((url: string) => {
-      const lang = url.match(/\/locales\/(\w+)\.json/)?.[1];
+      const lang = url.match(/\/locales\/([\w-]+)\.json/)?.[1];
       if (lang && mockTranslations[lang as keyof typeof mockTranslations]) {
         return Promise.resolve({
           ok: true,
@@ -97,14 +115,61 @@ describe('TranslationManager', () => {
 
   describe('loadTranslations', () => {
     beforeEach(() => {
+      localStorage.setItem('language', 'pt');
       translationManager = new TranslationManager();
     });
 
-    it('should load translations for all supported languages', async () => {
+    it('should only load the current language up front', async () => {
       await translationManager.loadTranslations();
 
       expect(fetch).toHaveBeenCalledWith('/locales/pt.json');
+      expect(fetch).not.toHaveBeenCalledWith('/locales/en.json');
+    });
+
+    it('should load other languages when switching', async () => {
+      await translationManager.initialize();
+      await translationManager.switchLanguage('en');
+
       expect(fetch).toHaveBeenCalledWith('/locales/en.json');
+      expect(translationManager.getCurrentLanguage()).toBe('en');
+      expect(translationManager.translate('hero.title')).toBe('Welcome to LOFERSIL');
+    });
+
+    it('should keep the current language when another locale fails to load', async () => {
+      await translationManager.initialize();
+      global.fetch = vi.fn(() => Promise.reject(new Error('Network error')));
+
+      await translationManager.switchLanguage('en');
+
+      expect(translationManager.getCurrentLanguage()).toBe('pt');
+      expect(translationManager.translate('hero.title')).toBe('Bem-vindo à LOFERSIL');
+    });
+
+    it('should revalidate cached locales with their ETag', async () => {
+      const stored = new Map<string, Response>();
+      vi.stubGlobal('caches', {
+        open: vi.fn(async () => ({
+          match: vi.fn(async (url: string) => stored.get(url)?.clone()),
+          put: vi.fn(async (url: string, response: Response) => {
+            stored.set(url, response);
+          }),
+        })),
+      });
+      global.fetch = vi.fn(async (_url: string, init?: RequestInit) =>
+        init
+          ? new Response(null, { status: 304 })
+          : new Response(JSON.stringify(mockTranslations.pt), { headers: { ETag: '"v1"' } })
+      ) as typeof fetch;
+
+      await new TranslationManager().loadTranslations();
+      const revalidated = new TranslationManager();
+      await revalidated.loadTranslations();
+
+      expect(fetch).toHaveBeenLastCalledWith('/locales/pt.json', {
+        headers: { 'If-None-Match': '"v1"' },
+      });
+      expect(revalidated.translate('hero.title')).toBe('Bem-vindo à LOFERSIL');
+      vi.unstubAllGlobals();
     });
 
     it('should handle fetch errors gracefully', async () => {
@@ -158,6 +223,16 @@ describe('TranslationManager', () => {
 
       expect(translationManager.getCurrentLanguage()).toBe('pt');
     });
+
+    it('should use the language set by the bootstrap script', () => {
+      localStorage.setItem('language', 'pt');
+      document.documentElement.lang = 'en-US';
+      document.documentElement.setAttribute('data-bootstrapped', '');
+
+      expect(new TranslationManager().getCurrentLanguage()).toBe('en');
+
+      document.documentElement.removeAttribute('data-bootstrapped');
+    });
   });
 
   describe('applyTranslations', () => {
@@ -244,6 +319,385 @@ describe('TranslationManager', () => {
     });
   });
 
+  describe('Message Formatting', () => {
+    beforeEach(async () => {
+      localStorage.setItem('language', 'pt');
+      document.body.innerHTML = `
+        <p data-translate="products.count" data-translate-params='{"count": 3}'>3 produtos</p>
+      `;
+
+      translationManager = new TranslationManager();
+      await translationManager.initialize();
+    });
+
+    it('should format plurals and interpolation through t()', () => {
+      expect(translationManager.t('products.count', { count: 0 })).toBe('Sem produtos');
+      expect(translationManager.t('products.count', { count: 1 })).toBe('1 produto');
+      expect(translationManager.t('products.welcome', { name: 'Ana' })).toBe('Olá, Ana!');
+    });
+
+    it('should apply data-translate-params to translated elements', () => {
+      expect(document.querySelector('[data-translate="products.count"]')?.textContent).toBe(
+        '3 produtos'
+      );
+    });
+  });
+
+  describe('Attribute and HTML Translations', () => {
+    beforeEach(() => {
+      localStorage.setItem('language', 'pt');
+      document.body.innerHTML = `
+        <img src="loja.webp" alt="Loja" data-translate-attr="alt:alt.storeFront; title:alt.storeFront" />
+        <a href="/" data-translate-attr="href:faq.unsafeLink">Link</a>
+        <p data-translate-html="faq.answer">Ligue-nos</p>
+      `;
+      translationManager = new TranslationManager();
+    });
+
+    it('should translate attributes listed in data-translate-attr', async () => {
+      await translationManager.initialize();
+
+      const image = document.querySelector('img');
+      expect(image?.getAttribute('alt')).toBe('Frente da Loja LOFERSIL');
+      expect(image?.getAttribute('title')).toBe('Frente da Loja LOFERSIL');
+    });
+
+    it('should refuse script URLs in translated href attributes', async () => {
+      await translationManager.initialize();
+
+      expect(document.querySelector('a')?.getAttribute('href')).toBe('/');
+    });
+
+    it('should sanitize data-translate-html content with DOMPurify', async () => {
+      const sanitize = vi.fn((html: string) => html);
+      vi.stubGlobal('DOMPurify', { sanitize });
+
+      await translationManager.initialize();
+
+      expect(sanitize).toHaveBeenCalledWith(
+        expect.stringContaining('<a href="tel:+351213531555">'),
+        expect.objectContaining({ ALLOWED_TAGS: expect.arrayContaining(['a']) })
+      );
+      expect(document.querySelector('[data-translate-html] a')?.getAttribute('href')).toBe(
+        'tel:+351213531555'
+      );
+      vi.unstubAllGlobals();
+    });
+
+    it('should fall back to plain text when DOMPurify is unavailable', async () => {
+      vi.stubGlobal('DOMPurify', undefined);
+
+      await translationManager.initialize();
+
+      const paragraph = document.querySelector('[data-translate-html]');
+      expect(paragraph?.children).toHaveLength(0);
+      expect(paragraph?.textContent).toBe('Ligue para +351 21 353 1555.');
+      vi.unstubAllGlobals();
+    });
+  });
+
+  describe('Fallback Chain', () => {
+    const registry = new LanguageRegistry([
+      ...DEFAULT_LANGUAGES,
+      { code: 'en-GB', name: 'English (UK)', flag: '🇬🇧', locale: 'en-GB', path: '/en-gb/' },
+    ]);
+
+    beforeEach(() => {
+      localStorage.setItem('language', 'en-GB');
+      document.body.innerHTML = `
+        <h1 data-translate="hero.title">Bem-vindo</h1>
+        <p data-translate="hero.subtitle">Produtos</p>
+        <p data-translate="products.welcome">Olá</p>
+      `;
+      translationManager = new TranslationManager(undefined, registry);
+    });
+
+    it('should build the chain from the primary subtag to the default language', () => {
+      expect(registry.getFallbackChain('en-GB')).toEqual(['en-GB', 'en', 'pt']);
+      expect(registry.getFallbackChain('pt')).toEqual(['pt']);
+    });
+
+    it('should fall back through the chain for missing keys', async () => {
+      await translationManager.initialize();
+
+      expect(document.querySelector('h1')?.textContent).toBe('Welcome to LOFERSIL, mate');
+      expect(translationManager.translate('hero.subtitle')).toBe('Premium Products');
+      expect(translationManager.translate('products.welcome', { name: 'Ana' })).toBe('Olá, Ana!');
+    });
+
+    it('should flag and report keys missing from the current language once', async () => {
+      const listener = vi.fn();
+      window.addEventListener('translationMissing', listener);
+
+      await translationManager.initialize();
+      translationManager.applyTranslations();
+      window.removeEventListener('translationMissing', listener);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].detail).toEqual({
+        language: 'en-GB',
+        keys: ['hero.subtitle', 'products.welcome'],
+      });
+      expect(document.querySelector('h1')?.hasAttribute('data-translation-missing')).toBe(false);
+      expect(
+        document
+          .querySelector('[data-translate="hero.subtitle"]')
+          ?.getAttribute('data-translation-missing')
+      ).toBe('hero.subtitle');
+    });
+  });
+
+  describe('Language Registry', () => {
+    const registry = new LanguageRegistry([
+      ...DEFAULT_LANGUAGES,
+      { code: 'es', name: 'Español', flag: '🇪🇸', locale: 'es-ES', path: '/es/' },
+    ]);
+
+    it('should detect a registered browser language', () => {
+      Object.defineProperty(navigator, 'language', {
+        value: 'es-MX',
+        configurable: true,
+      });
+
+      translationManager = new TranslationManager(undefined, registry);
+
+      expect(translationManager.getCurrentLanguage()).toBe('es');
+    });
+
+    it('should generate hreflang tags for every registered language', () => {
+      translationManager = new TranslationManager(undefined, registry);
+      translationManager.setupHreflangTags();
+
+      const tags = Array.from(document.querySelectorAll('link[rel="alternate"][hreflang]'));
+      expect(tags.map(tag => tag.getAttribute('hreflang'))).toEqual([
+        'pt-PT',
+        'en-US',
+        'es-ES',
+        'x-default',
+      ]);
+      expect(tags[2].getAttribute('href')).toBe(`${window.location.origin}/es/`);
+    });
+
+    it('should map the html lang attribute to the registered locale', () => {
+      localStorage.setItem('language', 'es');
+      translationManager = new TranslationManager(undefined, registry);
+      translationManager.updateHtmlLangAttribute();
+
+      expect(document.documentElement.lang).toBe('es-ES');
+    });
+  });
+
+  describe('Language Change Events', () => {
+    it('should notify subscribers once translations are loaded and on every switch', async () => {
+      translationManager = new TranslationManager();
+      const listener = vi.fn();
+      const unsubscribe = translationManager.onLanguageChange(listener);
+
+      await translationManager.initialize();
+      expect(listener).toHaveBeenLastCalledWith(
+        expect.objectContaining({ language: 'pt', previousLanguage: null, locale: 'pt-PT' })
+      );
+
+      await translationManager.switchLanguage('en');
+      const detail = listener.mock.calls[listener.mock.calls.length - 1][0];
+      expect(detail).toMatchObject({ language: 'en', previousLanguage: 'pt', locale: 'en-US' });
+      expect(detail.translate('hero.title')).toBe('Welcome to LOFERSIL');
+
+      unsubscribe();
+      translationManager.destroy();
+    });
+
+    it('should call late subscribers with the current language', async () => {
+      translationManager = new TranslationManager();
+      await translationManager.initialize();
+
+      const listener = vi.fn();
+      translationManager.onLanguageChange(listener)();
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ language: 'pt' }));
+      translationManager.destroy();
+    });
+  });
+
+  describe('URL Routing', () => {
+    beforeEach(() => {
+      document.body.innerHTML = '<h1 data-translate="hero.title">Bem-vindo à LOFERSIL</h1>';
+    });
+
+    afterEach(() => {
+      translationManager.destroy();
+    });
+
+    it('should prefer the language in the URL over the stored one', () => {
+      localStorage.setItem('language', 'pt');
+      window.history.replaceState(null, '', '/en/');
+      translationManager = new TranslationManager();
+
+      expect(translationManager.getCurrentLanguage()).toBe('en');
+    });
+
+    it('should keep the language and URL of pages that exist once per language', async () => {
+      localStorage.setItem('language', 'en');
+      window.history.replaceState(null, '', '/privacy.html');
+      translationManager = new TranslationManager();
+      await translationManager.initialize();
+
+      expect(translationManager.getCurrentLanguage()).toBe('pt');
+      expect(window.location.pathname).toBe('/privacy.html');
+      expect(document.documentElement.lang).toBe('pt-PT');
+      expect(document.querySelector('link[rel="canonical"]')?.getAttribute('href')).toBe(
+        `${window.location.origin}/privacy`
+      );
+    });
+
+    it('should push the language path when switching languages', async () => {
+      window.history.replaceState(null, '', '/?ref=test#faq');
+      translationManager = new TranslationManager();
+      await translationManager.initialize();
+      await translationManager.switchLanguage('en');
+
+      expect(window.location.pathname).toBe('/en/');
+      expect(window.location.search).toBe('?ref=test');
+      expect(window.location.hash).toBe('#faq');
+      expect(window.history.state).toEqual({ language: 'en' });
+    });
+
+    it('should derive canonical and hreflang links from the route map', async () => {
+      window.history.replaceState(null, '', '/en/privacy.html');
+      translationManager = new TranslationManager();
+      translationManager.updateCanonicalLink();
+      translationManager.setupHreflangTags();
+
+      const origin = window.location.origin;
+      expect(document.querySelector('link[rel="canonical"]')?.getAttribute('href')).toBe(
+        `${origin}/en/privacy`
+      );
+      const tags = Array.from(document.querySelectorAll('link[rel="alternate"][hreflang]'));
+      expect(tags.map(tag => [tag.getAttribute('hreflang'), tag.getAttribute('href')])).toEqual([
+        ['pt-PT', `${origin}/privacy`],
+        ['en-US', `${origin}/en/privacy`],
+        ['x-default', `${origin}/privacy`],
+      ]);
+    });
+
+    it('should not add alternates for pages outside the route map', () => {
+      window.history.replaceState(null, '', '/unknown-page');
+      translationManager = new TranslationManager();
+      translationManager.setupHreflangTags();
+
+      expect(document.querySelectorAll('link[hreflang]')).toHaveLength(0);
+    });
+
+    it('should switch back when navigating through history', async () => {
+      translationManager = new TranslationManager();
+      await translationManager.initialize();
+      await translationManager.switchLanguage('en');
+      // Wait out the rapid-switching guard
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      window.history.replaceState(null, '', '/');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+      await vi.waitFor(() => expect(translationManager.getCurrentLanguage()).toBe('pt'));
+
+      expect(window.location.pathname).toBe('/');
+      expect(document.querySelector('h1')?.textContent).toBe('Bem-vindo à LOFERSIL');
+    });
+  });
+
+  describe('Cross-tab Sync', () => {
+    beforeEach(() => {
+      document.body.innerHTML = '<h1 data-translate="hero.title">Bem-vindo à LOFERSIL</h1>';
+    });
+
+    afterEach(() => {
+      translationManager.destroy();
+    });
+
+    const changeLanguageInOtherTab = (language: string) => {
+      localStorage.setItem('language', language);
+      window.dispatchEvent(new StorageEvent('storage', { key: 'language', newValue: language }));
+    };
+
+    it('should switch to a language chosen in another tab', async () => {
+      translationManager = new TranslationManager();
+      await translationManager.initialize();
+      const historyLength = window.history.length;
+      const languageChangeHandler = vi.fn();
+      const unsubscribe = translationManager.onLanguageChange(languageChangeHandler);
+
+      changeLanguageInOtherTab('en');
+      await vi.waitFor(() => expect(translationManager.getCurrentLanguage()).toBe('en'));
+
+      expect(document.querySelector('h1')?.textContent).toBe('Welcome to LOFERSIL');
+      expect(window.location.pathname).toBe('/en/');
+      expect(window.history.length).toBe(historyLength);
+      expect(languageChangeHandler).toHaveBeenLastCalledWith(
+        expect.objectContaining({ language: 'en', previousLanguage: 'pt' })
+      );
+      unsubscribe();
+    });
+
+    it('should leave pages that exist once per language alone', async () => {
+      window.history.replaceState(null, '', '/privacy');
+      translationManager = new TranslationManager();
+      await translationManager.initialize();
+      const switchSpy = vi.spyOn(translationManager, 'switchLanguage');
+
+      changeLanguageInOtherTab('en');
+
+      expect(switchSpy).not.toHaveBeenCalled();
+      expect(translationManager.getCurrentLanguage()).toBe('pt');
+    });
+
+    it('should stop following other tabs once destroyed', async () => {
+      translationManager = new TranslationManager();
+      await translationManager.initialize();
+      translationManager.destroy();
+      const switchSpy = vi.spyOn(translationManager, 'switchLanguage');
+
+      changeLanguageInOtherTab('en');
+
+      expect(switchSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Pre-rendered Pages', () => {
+    beforeEach(() => {
+      localStorage.setItem('language', 'pt');
+      document.documentElement.lang = 'en-US';
+      document.documentElement.setAttribute('data-prerendered', '');
+      document.body.innerHTML = '<h1 data-translate="hero.title">Welcome to LOFERSIL</h1>';
+    });
+
+    afterEach(() => {
+      document.documentElement.removeAttribute('data-prerendered');
+    });
+
+    it('should use the language the page was rendered in', () => {
+      translationManager = new TranslationManager();
+
+      expect(translationManager.getCurrentLanguage()).toBe('en');
+    });
+
+    it('should load translations without re-applying them', async () => {
+      translationManager = new TranslationManager();
+      const applySpy = vi.spyOn(translationManager, 'applyTranslations');
+      await translationManager.initialize();
+
+      expect(applySpy).not.toHaveBeenCalled();
+      expect(translationManager.translate('hero.subtitle')).toBe('Premium Products');
+      expect(document.querySelectorAll('link[hreflang]')).toHaveLength(0);
+    });
+
+    it('should still switch languages in place', async () => {
+      translationManager = new TranslationManager();
+      await translationManager.initialize();
+      await translationManager.switchLanguage('pt');
+
+      expect(document.querySelector('h1')?.textContent).toBe('Bem-vindo à LOFERSIL');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle missing translation files', async () => {
       global.fetch = vi.fn(() =>
@@ -3,20 +3,52 @@
  * Handles loading and applying translations for multiple languages
  */
 
-import { Translations } from '../types.js';
+import { Language, Translations } from '../types.js';
 import { ErrorManager } from './ErrorManager.js';
+import { LanguageChangeListener, languageEvents } from './LanguageEvents.js';
+import { LANGUAGE_STORAGE_KEY, LanguageRegistry, languageRegistry } from './LanguageRegistry.js';
+import { LanguageRouter } from './LanguageRouter.js';
+import { LocaleLoader } from './LocaleLoader.js';
+import { MessageParams, formatMessage } from '../messageFormat.js';
+
+// Markup allowed in data-translate-html strings
+const HTML_TRANSLATION_CONFIG = {
+  ALLOWED_TAGS: ['a', 'strong', 'em', 'b', 'i', 'br', 'span'],
+  ALLOWED_ATTR: ['href', 'target', 'rel', 'class'],
+};
+
+// Attributes whose translated values are URLs and must not use script protocols
+const URL_ATTRIBUTES = ['href', 'src', 'action'];
+
+// Resolves a key for an element, recording it when missing from the current language
+type ElementLookup = (element: Element, key: string) => string;
 
 export class TranslationManager {
   private translations: Record<string, Translations>;
   private currentLanguage: string;
-  private readonly defaultLanguage = 'pt';
-  private readonly supportedLanguages = ['pt', 'en'];
+  private readonly registry: LanguageRegistry;
+  private readonly localeLoader: LocaleLoader;
+  private readonly router: LanguageRouter;
+  private pendingLoads = new Map<string, Promise<boolean>>();
+  private reportedMissingKeys = new Set<string>();
   private errorHandler?: ErrorManager;
   private isInitialized = false;
   private isSwitchingLanguage = false;
+  private readonly isPrerendered: boolean;
+  private readonly popStateHandler = () => this.handlePopState();
+  private readonly storageHandler = (event: StorageEvent) => this.handleStorageChange(event);
 
-  constructor(errorHandler?: ErrorManager) {
+  constructor(
+    errorHandler?: ErrorManager,
+    registry: LanguageRegistry = languageRegistry,
+    localeLoader: LocaleLoader = new LocaleLoader(),
+    router: LanguageRouter = new LanguageRouter(registry)
+  ) {
     this.translations = {};
+    this.registry = registry;
+    this.localeLoader = localeLoader;
+    this.router = router;
+    this.isPrerendered = document.documentElement.hasAttribute('data-prerendered');
     this.currentLanguage = this.detectLanguage();
     this.errorHandler = errorHandler;
   }
@@ -25,26 +57,48 @@ export class TranslationManager {
    * Detect the user's preferred language
    */
   private detectLanguage(): string {
-    // Check localStorage first
-    const stored = localStorage.getItem('language');
-    if (stored && this.supportedLanguages.includes(stored)) {
+    // Pages that exist once per language (e.g. /privacy, /en/privacy) are in the language of
+    // their URL whatever the stored preference
+    const { language, route } = this.router.parse(window.location.pathname);
+    if (route && !route.inPage) {
+      return language.code;
+    }
+
+    // Pre-rendered pages are already in the language of their URL, and on other pages the
+    // inline bootstrap script has run this detection before first paint
+    const root = document.documentElement;
+    const pageLanguage =
+      (this.isPrerendered || root.hasAttribute('data-bootstrapped')) &&
+      this.registry.match(root.lang);
+    if (pageLanguage) {
+      return pageLanguage.code;
+    }
+
+    // A language prefix in the URL (e.g. /en/) wins over stored preferences
+    const urlLanguage = this.router.getPathLanguage(window.location.pathname);
+    if (urlLanguage) {
+      return urlLanguage.code;
+    }
+
+    // Check localStorage
+    const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    if (stored && this.registry.has(stored)) {
       return stored;
     }
 
     // Check browser language
-    const browserLang = navigator.language.toLowerCase();
-    if (browserLang.startsWith('pt')) {
-      return 'pt';
-    } else if (browserLang.startsWith('en')) {
-      return 'en';
+    const browserLanguage = this.registry.match(navigator.language);
+    if (browserLanguage) {
+      return browserLanguage.code;
     }
 
     // Default to Portuguese
-    return this.defaultLanguage;
+    return this.registry.getDefault().code;
   }
 
   /**
    * Initialize the translation system
+   * Pre-rendered pages only load their translations for in-page switching
    */
   async initialize(): Promise<void> {
     if (this.isInitialized) {
@@ -52,61 +106,115 @@ export class TranslationManager {
     }
 
     await this.loadTranslations();
-    this.applyTranslations();
-    this.updateMetaTagsForLanguage();
-    this.setupHreflangTags();
-    this.updateHtmlLangAttribute();
+    window.addEventListener('popstate', this.popStateHandler);
+    window.addEventListener('storage', this.storageHandler);
+    if (!this.isPrerendered) {
+      this.applyTranslations();
+      this.updateMetaTagsForLanguage();
+      this.updateUrlForLanguage('replace');
+      this.updateHtmlLangAttribute();
+    }
     this.isInitialized = true;
+    this.emitLanguageChange(null);
+  }
+
+  /**
+   * Subscribe to language changes, returning a function that unsubscribes
+   * The listener is called right away once translations are loaded
+   */
+  onLanguageChange(listener: LanguageChangeListener): () => void {
+    return languageEvents.subscribe(listener);
   }
 
   /**
-   * Load translations for all supported languages
+   * Notify languagechange subscribers of the current language
+   */
+  private emitLanguageChange(previousLanguage: string | null): void {
+    languageEvents.emit({
+      language: this.currentLanguage,
+      previousLanguage,
+      locale: this.getCurrentLocale(),
+      translate: (key, params) => this.translate(key, params),
+    });
+  }
+
+  /**
+   * Stop following browser history and other tabs
+   */
+  destroy(): void {
+    window.removeEventListener('popstate', this.popStateHandler);
+    window.removeEventListener('storage', this.storageHandler);
+  }
+
+  /**
+   * Load translations for the current language and its fallbacks
    */
   async loadTranslations(): Promise<void> {
-    console.log(`Loading translations for languages: ${this.supportedLanguages.join(', ')}`);
-    try {
-      const promises = this.supportedLanguages.map(async lang => {
-        const response = await fetch(`/locales/${lang}.json`);
-        if (!response.ok) {
-          throw new Error(
-            `Failed to load ${lang} translations: ${response.status} ${response.statusText}`
-          );
-        }
-        return { lang, data: await response.json() };
-      });
+    await this.loadLanguageChain(this.currentLanguage);
+  }
 
-      const results = await Promise.all(promises);
-      this.translations = results.reduce(
-        (acc, { lang, data }) => {
-          acc[lang] = data;
-          return acc;
-        },
-        {} as Record<string, Translations>
-      );
+  /**
+   * Load translations for a language on demand, returning whether they are available
+   * Failures are logged and leave already loaded languages untouched
+   */
+  async loadLanguage(lang: string): Promise<boolean> {
+    if (this.translations[lang]) {
+      return true;
+    }
 
-      console.log(`Translations loaded for:`, Object.keys(this.translations));
-    } catch (error) {
-      console.error('Failed to load translations:', error);
-      // Fallback to empty translations if loading fails
-      this.translations = {};
+    let pending = this.pendingLoads.get(lang);
+    if (!pending) {
+      console.log(`Loading translations for language: ${lang}`);
+      pending = this.localeLoader
+        .load(lang)
+        .then(data => {
+          this.translations[lang] = data;
+          return true;
+        })
+        .catch(error => {
+          console.error(`Failed to load ${lang} translations:`, error);
+          return false;
+        })
+        .finally(() => this.pendingLoads.delete(lang));
+      this.pendingLoads.set(lang, pending);
     }
+    return pending;
+  }
+
+  /**
+   * Load a language and its fallback chain, returning whether the language itself loaded
+   */
+  private async loadLanguageChain(lang: string): Promise<boolean> {
+    const chain = this.registry.getFallbackChain(lang);
+    const [loaded] = await Promise.all(chain.map(code => this.loadLanguage(code)));
+    return loaded;
   }
 
   /**
    * Apply translations to DOM elements
+   * Elements with keys missing from the current language are marked with data-translation-missing
    */
   applyTranslations(): void {
     const elements = document.querySelectorAll('[data-translate]');
     console.log(`Applying ${this.currentLanguage} translations: Found ${elements.length} elements`);
-    const currentTranslations = this.translations[this.currentLanguage];
-    if (!currentTranslations) {
+    if (!this.translations[this.currentLanguage]) {
       console.warn(`No translations available for language: ${this.currentLanguage}`);
       return;
     }
+
+    const missing = new Map<Element, string[]>();
+    const lookup: ElementLookup = (element, key) => {
+      const { message, language } = this.resolveMessage(key);
+      if (language !== this.currentLanguage) {
+        missing.set(element, [...(missing.get(element) || []), key]);
+      }
+      return message ? this.formatTranslation(message, this.getElementParams(element)) : '';
+    };
+
     elements.forEach(element => {
       const key = element.getAttribute('data-translate');
       if (key) {
-        const translation = this.getNestedTranslation(currentTranslations, key);
+        const translation = lookup(element, key);
         if (translation && element instanceof HTMLElement) {
           // Handle different element types
           if (element.tagName === 'META') {
@@ -119,9 +227,96 @@ export class TranslationManager {
         }
       }
     });
+    this.applyHtmlTranslations(lookup);
+    this.applyAttributeTranslations(lookup);
+    this.markUntranslatedElements(missing);
+    this.reportMissingKeys([...new Set([...missing.values()].flat())]);
     console.log(`${this.currentLanguage} translations applied`);
   }
 
+  /**
+   * Apply data-translate-html keys as sanitized markup, e.g. for strings containing links
+   */
+  private applyHtmlTranslations(lookup: ElementLookup): void {
+    document.querySelectorAll('[data-translate-html]').forEach(element => {
+      const key = element.getAttribute('data-translate-html');
+      const translation = key ? lookup(element, key) : '';
+      if (!translation) return;
+
+      if (typeof window.DOMPurify === 'undefined') {
+        // Never inject unsanitized markup; plain text is the safe fallback
+        element.textContent = translation.replace(/<[^>]*>/g, '');
+        return;
+      }
+      element.innerHTML = window.DOMPurify.sanitize(translation, HTML_TRANSLATION_CONFIG);
+    });
+  }
+
+  /**
+   * Apply data-translate-attr directives such as "alt:alt.storeFront;aria-label:nav.home"
+   */
+  private applyAttributeTranslations(lookup: ElementLookup): void {
+    document.querySelectorAll('[data-translate-attr]').forEach(element => {
+      const directives = element.getAttribute('data-translate-attr') || '';
+      directives.split(';').forEach(directive => {
+        const [attribute, key] = directive.split(':').map(part => part.trim());
+        if (!attribute || !key) return;
+
+        const translation = lookup(element, key);
+        if (!translation) return;
+        if (
+          URL_ATTRIBUTES.includes(attribute) &&
+          /^\s*(javascript|data|vbscript):/i.test(translation)
+        ) {
+          console.warn(`Refusing unsafe URL for ${attribute} from translation key: ${key}`);
+          return;
+        }
+        element.setAttribute(attribute, translation);
+      });
+    });
+  }
+
+  /**
+   * Flag elements whose keys are missing from the current language, clearing stale flags
+   */
+  private markUntranslatedElements(missing: Map<Element, string[]>): void {
+    document.querySelectorAll('[data-translation-missing]').forEach(element => {
+      if (!missing.has(element)) element.removeAttribute('data-translation-missing');
+    });
+    missing.forEach((keys, element) => {
+      element.setAttribute('data-translation-missing', keys.join(' '));
+    });
+  }
+
+  /**
+   * Dispatch a translationMissing event for keys not reported before in this language
+   */
+  private reportMissingKeys(keys: string[]): void {
+    const language = this.currentLanguage;
+    const newKeys = keys.filter(key => !this.reportedMissingKeys.has(`${language}:${key}`));
+    if (newKeys.length === 0) return;
+
+    newKeys.forEach(key => this.reportedMissingKeys.add(`${language}:${key}`));
+    console.warn(`Missing ${language} translations:`, newKeys);
+    window.dispatchEvent(
+      new CustomEvent('translationMissing', { detail: { language, keys: newKeys } })
+    );
+  }
+
+  /**
+   * Find a message in the current language or the first fallback that has it
+   */
+  private resolveMessage(key: string): { message: string; language: string | null } {
+    for (const code of this.registry.getFallbackChain(this.currentLanguage)) {
+      const translations = this.translations[code];
+      const message = translations ? this.getNestedTranslation(translations, key) : undefined;
+      if (typeof message === 'string' && message) {
+        return { message, language: code };
+      }
+    }
+    return { message: '', language: null };
+  }
+
   /**
    * Get nested translation value
    */
@@ -131,12 +326,55 @@ export class TranslationManager {
     }, obj);
   }
 
+  /**
+   * Translate a key in the current language or its fallbacks, returning the key when missing
+   */
+  translate(key: string, params?: MessageParams): string {
+    if (!this.translations[this.currentLanguage]) {
+      return key;
+    }
+
+    const { message, language } = this.resolveMessage(key);
+    if (language !== this.currentLanguage) {
+      this.reportMissingKeys([key]);
+    }
+    return message ? this.formatTranslation(message, params) : key;
+  }
+
+  /**
+   * Shorthand for translate(key, params)
+   */
+  t(key: string, params?: MessageParams): string {
+    return this.translate(key, params);
+  }
+
+  /**
+   * Format an ICU message in the current language's locale
+   */
+  formatTranslation(message: string, params: MessageParams = {}): string {
+    return formatMessage(message, params, this.getCurrentLocale());
+  }
+
+  /**
+   * Read the JSON parameters from an element's data-translate-params attribute
+   */
+  private getElementParams(element: Element): MessageParams {
+    const attribute = element.getAttribute('data-translate-params');
+    if (!attribute) return {};
+
+    try {
+      return JSON.parse(attribute) as MessageParams;
+    } catch (error) {
+      console.warn(`Invalid data-translate-params on ${element.tagName}:`, error);
+      return {};
+    }
+  }
+
   /**
    * Update meta tags for current language
    */
   updateMetaTagsForLanguage(): void {
-    const currentTranslations = this.translations[this.currentLanguage];
-    if (!currentTranslations) return;
+    if (!this.translations[this.currentLanguage]) return;
 
     const metaKeys = [
       'title',
@@ -147,7 +385,7 @@ export class TranslationManager {
       'twitterDescription',
     ];
     metaKeys.forEach(key => {
-      const translation = this.getNestedTranslation(currentTranslations, `meta.${key}`);
+      const translation = this.resolveMessage(`meta.${key}`).message;
       if (translation) {
         switch (key) {
           case 'title':
@@ -186,19 +424,17 @@ export class TranslationManager {
   }
 
   /**
-   * Setup hreflang tags for all supported languages
+   * Setup hreflang tags for the language versions of the current page
    */
   setupHreflangTags(): void {
     // Remove existing hreflang tags
     const existingTags = document.querySelectorAll('link[rel="alternate"][hreflang]');
     existingTags.forEach(tag => tag.remove());
 
-    // Add hreflang tags for each supported language
     const baseUrl = window.location.origin;
-    this.addHreflangTag('pt-PT', `${baseUrl}/`);
-    this.addHreflangTag('en-US', `${baseUrl}/en/`);
-    // Default language
-    this.addHreflangTag('x-default', `${baseUrl}/`);
+    this.router.getAlternates(window.location.pathname).forEach(({ hreflang, path }) => {
+      this.addHreflangTag(hreflang, `${baseUrl}${path}`);
+    });
   }
 
   /**
@@ -216,7 +452,7 @@ export class TranslationManager {
    * Update the HTML lang attribute
    */
   updateHtmlLangAttribute(): void {
-    document.documentElement.lang = this.currentLanguage === 'pt' ? 'pt-PT' : 'en-US';
+    document.documentElement.lang = this.getCurrentLocale();
   }
 
   /**
@@ -230,15 +466,67 @@ export class TranslationManager {
       canonical.rel = 'canonical';
       document.head.appendChild(canonical);
     }
-    // Set canonical URL for Portuguese
-    canonical.href = `${baseUrl}${window.location.pathname}`;
+    const pathname = window.location.pathname;
+    canonical.href = `${baseUrl}${this.router.localize(pathname, this.currentLanguage) || pathname}`;
+  }
+
+  /**
+   * Point the URL at the current language's version of the page
+   * Also refreshes the canonical link and hreflang tags derived from it
+   */
+  private updateUrlForLanguage(mode: 'push' | 'replace'): void {
+    // Only pages translated in place change their URL; other pages are separate documents
+    const { route } = this.router.parse(window.location.pathname);
+    const path =
+      route?.inPage && this.router.localize(window.location.pathname, this.currentLanguage);
+    if (path && path !== window.location.pathname) {
+      const url = `${path}${window.location.search}${window.location.hash}`;
+      const state = { language: this.currentLanguage };
+      if (mode === 'push') {
+        window.history.pushState(state, '', url);
+      } else {
+        window.history.replaceState(state, '', url);
+      }
+    }
+    this.updateCanonicalLink();
+    this.setupHreflangTags();
+  }
+
+  /**
+   * Follow back/forward navigation between language versions of the page
+   */
+  private handlePopState(): void {
+    const { language } = this.router.parse(window.location.pathname);
+    if (language.code !== this.currentLanguage) {
+      void this.switchLanguage(language.code, { updateUrl: false });
+    }
+  }
+
+  /**
+   * Follow a language chosen in another tab
+   * Pages that exist once per language keep theirs until the visitor navigates, rather than
+   * reloading in the background
+   */
+  private handleStorageChange(event: StorageEvent): void {
+    const lang = event.key === LANGUAGE_STORAGE_KEY ? event.newValue : null;
+    if (!lang || lang === this.currentLanguage || !this.registry.has(lang)) {
+      return;
+    }
+
+    const { route } = this.router.parse(window.location.pathname);
+    if (route && !route.inPage) {
+      return;
+    }
+    void this.switchLanguage(lang, { replaceUrl: true });
   }
 
   /**
    * Switch to a different language
+   * Pages translated in place push the language's URL (or replace it with `replaceUrl`); other
+   * pages navigate to their translation
    */
-  switchLanguage(lang: 'pt' | 'en'): void {
-    if (!this.supportedLanguages.includes(lang)) {
+  async switchLanguage(lang: string, { updateUrl = true, replaceUrl = false } = {}): Promise<void> {
+    if (!this.registry.has(lang)) {
       console.warn(`Unsupported language: ${lang}`);
       return;
     }
@@ -247,15 +535,43 @@ export class TranslationManager {
       return; // Prevent rapid switching
     }
 
+    const { route } = this.router.parse(window.location.pathname);
+    const translatedPage = this.router.localize(window.location.pathname, lang);
+    if (updateUrl && route && !route.inPage && translatedPage) {
+      localStorage.setItem(LANGUAGE_STORAGE_KEY, lang);
+      window.location.assign(`${translatedPage}${window.location.hash}`);
+      return;
+    }
+
     this.isSwitchingLanguage = true;
 
+    if (!(await this.loadLanguageChain(lang))) {
+      // Keep the current language working when the new one cannot be loaded
+      this.isSwitchingLanguage = false;
+      this.errorHandler?.handleError(
+        new Error(`Translations for ${lang} are unavailable`),
+        'Switching language'
+      );
+      return;
+    }
+
+    const previousLanguage = this.currentLanguage;
     this.currentLanguage = lang;
-    localStorage.setItem('language', lang);
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, lang);
     this.applyTranslations();
     this.updateMetaTagsForLanguage();
     this.updateHtmlLangAttribute();
+    if (updateUrl) {
+      this.updateUrlForLanguage(replaceUrl ? 'replace' : 'push');
+    } else {
+      this.updateCanonicalLink();
+      this.setupHreflangTags();
+    }
     console.log(`Switched to language: ${lang}`);
 
+    // Let components re-render generated text
+    this.emitLanguageChange(previousLanguage);
+
     // Reset the flag after a short delay to allow subsequent switches
     setTimeout(() => {
       this.isSwitchingLanguage = false;
@@ -269,6 +585,20 @@ export class TranslationManager {
     return this.currentLanguage;
   }
 
+  /**
+   * Get the BCP 47 locale of the current language, e.g. 'pt-PT'
+   */
+  getCurrentLocale(): string {
+    return (this.registry.get(this.currentLanguage) || this.registry.getDefault()).locale;
+  }
+
+  /**
+   * Get the registered languages
+   */
+  getLanguages(): Language[] {
+    return this.registry.getAll();
+  }
+
   /**
    * Get current translations (for debugging/testing)
    */
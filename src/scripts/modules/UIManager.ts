@@ -3,7 +3,8 @@
  * Manages UI state, scroll effects, and user interactions
  */
 
-import { validateContactForm, ContactFormValidator } from '../validation.js';
+import { validateContactForm, ContactFormValidator, ContactRequest } from '../validation.js';
+import { AnchorNavigator } from './AnchorNavigator.js';
 
 // Simple error handling helper
 class UIErrorHandler {
@@ -30,13 +31,6 @@ class UIErrorHandler {
 }
 
 // API Types
-interface ContactRequest {
-  name: string;
-  email: string;
-  phone?: string;
-  message: string;
-}
-
 interface ApiResponse<T> {
   success: boolean;
   data: T;
@@ -59,9 +53,11 @@ export class UIManager {
   private navbar: HTMLElement | null = null;
   private config: UIConfig;
   private ticking: boolean = false;
+  private anchorNavigator: AnchorNavigator;
 
-  constructor(config: UIConfig) {
+  constructor(config: UIConfig, anchorNavigator: AnchorNavigator = new AnchorNavigator()) {
     this.config = config;
+    this.anchorNavigator = anchorNavigator;
     this.setupDOMElements();
     this.setupScrollEffects();
     this.setupContactForm();
@@ -292,19 +288,10 @@ export class UIManager {
   }
 
   /**
-   * Smooth scroll to element
+   * Smooth scroll to element below the fixed header, leaving `offset` extra pixels above it
    */
   public scrollToElement(selector: string, offset: number = 0): void {
-    const element = document.querySelector(selector) as HTMLElement;
-    if (element) {
-      const elementPosition = element.getBoundingClientRect().top + window.pageYOffset;
-      const offsetPosition = elementPosition - offset;
-
-      window.scrollTo({
-        top: offsetPosition,
-        behavior: 'smooth',
-      });
-    }
+    this.anchorNavigator.scrollTo(selector, { offset });
   }
 
   /**
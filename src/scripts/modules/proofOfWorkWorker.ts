@@ -0,0 +1,12 @@
+/**
+ * Proof of Work Worker for LOFERSIL Landing Page
+ * Solves contact form challenges off the main thread so typing stays responsive
+ */
+
+import { ProofOfWorkChallenge, solveChallenge } from '../proofOfWork.js';
+
+self.addEventListener('message', (event: MessageEvent<ProofOfWorkChallenge>) => {
+  solveChallenge(event.data)
+    .then(solution => self.postMessage({ solution }))
+    .catch(error => self.postMessage({ solution: null, error: String(error) }));
+});
@@ -0,0 +1,173 @@
+// @vitest-environment node
+/**
+ * Pre-rendering Tests
+ * Renders small templates per language and rebases URLs for subdirectory pages
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { localizeStructuredData, rebaseRelativeUrls, renderPage } from '../../prerender.js';
+import { formatMessage } from './messageFormat.js';
+import { DEFAULT_LANGUAGES } from './modules/LanguageRegistry.js';
+
+const BASE_URL = 'https://lofersil.vercel.app';
+
+const locales = {
+  pt: {
+    meta: { description: 'Loja em Lisboa', placename: 'Lisboa, Portugal' },
+    nav: { home: 'Início' },
+    footer: { copyright: '© {year} LOFERSIL' },
+    productsShowcase: { rating: '{rating} de 5 estrelas' },
+    structuredData: { business: { description: 'Loja em Lisboa' } },
+  },
+  en: {
+    meta: { description: 'Store in Lisbon', placename: 'Lisbon, Portugal' },
+    nav: { home: 'Home' },
+    footer: { copyright: '© {year} LOFERSIL' },
+    productsShowcase: { rating: '{rating} out of 5 stars' },
+    structuredData: { business: { description: 'Store in Lisbon' } },
+  },
+};
+
+const template = `<!doctype html>
+<html lang="pt">
+  <head>
+    <meta name="description" content="Loja em Lisboa" />
+    <meta name="geo.placename" content="Lisboa, Portugal" data-translate="meta.placename" />
+    <link rel="canonical" href="${BASE_URL}/" />
+    <link rel="alternate" hreflang="pt" href="${BASE_URL}/" />
+    <script type="application/ld+json">
+      {
+        "@id": "${BASE_URL}/#business",
+        "url": "${BASE_URL}/",
+        "image": "${BASE_URL}/assets/images/logo.png",
+        "description": "Loja em Lisboa",
+        "inLanguage": "pt"
+      }
+    </script>
+  </head>
+  <body>
+    <a href="/" data-translate="nav.home">Início</a>
+    <span
+      aria-label="4.9 de 5 estrelas"
+      data-translate-attr="aria-label:productsShowcase.rating"
+      data-translate-params='{"rating":"4.9"}'
+      >★★★★★</span
+    >
+    <p data-translate="footer.copyright">© 2024 LOFERSIL</p>
+  </body>
+</html>`;
+
+const render = (code: string, html = template) =>
+  renderPage(html, {
+    language: DEFAULT_LANGUAGES.find(language => language.code === code),
+    languages: DEFAULT_LANGUAGES,
+    locales,
+    formatMessage,
+    baseUrl: BASE_URL,
+    params: { year: 2026 },
+  });
+
+const readStructuredData = (html: string) =>
+  JSON.parse(/<script type="application\/ld\+json">([\s\S]*?)<\/script>/.exec(html)![1]);
+
+describe('renderPage', () => {
+  beforeEach(() => {
+    // The fixtures leave out the og and twitter meta keys
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should translate text, attributes and meta tags', () => {
+    const html = render('en');
+
+    expect(html).toContain('<html lang="en-US" data-prerendered>');
+    expect(html).toContain('>Home</a>');
+    expect(html).toContain('aria-label="4.9 out of 5 stars"');
+    expect(html).toContain('>© 2026 LOFERSIL</p>');
+    expect(html).toContain('<meta name="description" content="Store in Lisbon" />');
+    expect(html).toContain('content="Lisbon, Portugal" data-translate="meta.placename"');
+  });
+
+  it('should replace the whole content of elements with nested same-name tags', () => {
+    const html = render(
+      'en',
+      '<div data-translate="nav.home"><div>Início</div> antigo</div><p>Fim</p>'
+    );
+
+    expect(html).toBe('<div data-translate="nav.home">Home</div><p>Fim</p>');
+  });
+
+  it('should fail the build for translated elements that are never closed', () => {
+    expect(() => render('en', '<p data-translate="nav.home">Início')).toThrow(
+      '<p> with translation key "nav.home" is never closed'
+    );
+  });
+
+  it('should point canonical and hreflang links at the language page', () => {
+    const html = render('en');
+
+    expect(html).toContain(`<link rel="canonical" href="${BASE_URL}/en/" />`);
+    expect(html).toContain(`<link rel="alternate" hreflang="en-US" href="${BASE_URL}/en/" />`);
+    expect(html).toContain(`<link rel="alternate" hreflang="x-default" href="${BASE_URL}/" />`);
+    expect(html).not.toContain('hreflang="pt"');
+  });
+
+  it('should localize structured data', () => {
+    expect(readStructuredData(render('en'))).toEqual({
+      '@id': `${BASE_URL}/en/#business`,
+      url: `${BASE_URL}/en/`,
+      image: `${BASE_URL}/assets/images/logo.png`,
+      description: 'Store in Lisbon',
+      inLanguage: 'en',
+    });
+    expect(readStructuredData(render('pt'))['@id']).toBe(`${BASE_URL}/#business`);
+  });
+});
+
+describe('localizeStructuredData', () => {
+  it('should merge strings into array items by index', () => {
+    const data = {
+      '@id': `${BASE_URL}/#faq`,
+      mainEntity: [
+        { name: 'Onde fica a loja?', acceptedAnswer: { text: 'Em Lisboa.' } },
+        { name: 'Quando abre?', acceptedAnswer: { text: 'Às 09:00.' } },
+      ],
+    };
+
+    expect(
+      localizeStructuredData(data, {
+        siteUrl: BASE_URL,
+        pageUrl: `${BASE_URL}/en/`,
+        languageCode: 'en',
+        strings: { faq: { mainEntity: { 1: { name: 'When do you open?' } } } },
+      }).mainEntity
+    ).toEqual([
+      { name: 'Onde fica a loja?', acceptedAnswer: { text: 'Em Lisboa.' } },
+      { name: 'When do you open?', acceptedAnswer: { text: 'Às 09:00.' } },
+    ]);
+  });
+});
+
+describe('rebaseRelativeUrls', () => {
+  it('should prefix relative asset URLs only', () => {
+    const html =
+      '<img src="assets/logo.svg" /><img data-src="assets/a.jpg" />' +
+      '<a href="/privacy.html"></a><a href="#faq"></a><a href="https://x.pt/"></a>' +
+      '<a href="mailto:a@b.pt"></a>';
+
+    expect(rebaseRelativeUrls(html, '../')).toBe(
+      '<img src="../assets/logo.svg" /><img data-src="../assets/a.jpg" />' +
+        '<a href="/privacy.html"></a><a href="#faq"></a><a href="https://x.pt/"></a>' +
+        '<a href="mailto:a@b.pt"></a>'
+    );
+  });
+
+  it('should keep URLs the callback reports as existing next to the page', () => {
+    expect(
+      rebaseRelativeUrls('<a href="privacy.html"></a>', '../', url => url === 'privacy.html')
+    ).toBe('<a href="privacy.html"></a>');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * LOFERSIL Landing Page - Proof of Work
+ * Shared helpers for the self-hosted contact form anti-spam challenge.
+ * The server issues a signed challenge; the browser searches for a nonce so that
+ * SHA-256("<challenge>:<nonce>") starts with `difficulty` zero bits.
+ */
+
+export interface ProofOfWorkChallenge {
+  challenge: string;
+  difficulty: number;
+  expiresAt: number;
+}
+
+export interface ProofOfWorkSolution {
+  challenge: string;
+  nonce: string;
+}
+
+export interface SolveOptions {
+  // Give up after this many attempts
+  maxIterations?: number;
+  // Yield to the event loop every N attempts, for main-thread solving
+  yieldEvery?: number;
+}
+
+const DEFAULT_MAX_ITERATIONS = 1 << 24;
+
+/**
+ * Build the string that is hashed for a nonce
+ */
+export function proofInput(challenge: string, nonce: string | number): string {
+  return `${challenge}:${nonce}`;
+}
+
+/**
+ * Check whether a hash starts with the given number of zero bits
+ */
+export function hasLeadingZeroBits(hash: Uint8Array, bits: number): boolean {
+  const fullBytes = Math.floor(bits / 8);
+  for (let i = 0; i < fullBytes; i++) {
+    if (hash[i] !== 0) return false;
+  }
+
+  const remainingBits = bits % 8;
+  return remainingBits === 0 || hash[fullBytes] >> (8 - remainingBits) === 0;
+}
+
+/**
+ * Check whether Web Crypto is available for solving
+ */
+export function canSolveProofOfWork(): boolean {
+  return typeof crypto !== 'undefined' && typeof crypto.subtle?.digest === 'function';
+}
+
+/**
+ * Search for a nonce that satisfies the challenge
+ * Returns null when no nonce is found within maxIterations
+ */
+export async function solveChallenge(
+  challenge: ProofOfWorkChallenge,
+  options: SolveOptions = {}
+): Promise<ProofOfWorkSolution | null> {
+  const encoder = new TextEncoder();
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+
+  for (let nonce = 0; nonce < maxIterations; nonce++) {
+    const digest = await crypto.subtle.digest(
+      'SHA-256',
+      encoder.encode(proofInput(challenge.challenge, nonce))
+    );
+    if (hasLeadingZeroBits(new Uint8Array(digest), challenge.difficulty)) {
+      return { challenge: challenge.challenge, nonce: String(nonce) };
+    }
+
+    if (options.yieldEvery && nonce % options.yieldEvery === options.yieldEvery - 1) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  return null;
+}
@@ -100,3 +100,78 @@ self.addEventListener('fetch', event => {
     })
   );
 });
+
+// Contact form outbox - shared layout with modules/ContactOutbox.ts
+// The page only asks for Background Sync when the contact API requires no proof of work, as
+// this worker cannot solve challenges; failed proofs (403) are left for the page to retry
+const OUTBOX_DB_NAME = 'lofersil-contact-outbox';
+const OUTBOX_STORE_NAME = 'messages';
+const OUTBOX_SYNC_TAG = 'contact-outbox';
+
+function openOutbox() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(OUTBOX_STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function outboxRequest(db, mode, action) {
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(OUTBOX_STORE_NAME, mode).objectStore(OUTBOX_STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function notifyClients(message) {
+  return self.clients
+    .matchAll({ includeUncontrolled: true, type: 'window' })
+    .then(clients => clients.forEach(client => client.postMessage(message)));
+}
+
+// Replay queued contact submissions; rejecting makes the browser retry the sync later
+async function replayOutbox() {
+  const db = await openOutbox();
+  const entries = await outboxRequest(db, 'readonly', store => store.getAll());
+  entries.sort((a, b) => a.createdAt - b.createdAt);
+
+  for (const entry of entries) {
+    const response = await fetch(entry.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: entry.body,
+    });
+
+    const permanentFailure =
+      response.status >= 400 &&
+      response.status < 500 &&
+      response.status !== 403 &&
+      response.status !== 408 &&
+      response.status !== 429;
+
+    if (response.ok || permanentFailure) {
+      await outboxRequest(db, 'readwrite', store => store.delete(entry.id));
+      await notifyClients({
+        type: 'contact-outbox',
+        id: entry.id,
+        status: response.ok ? 'sent' : 'rejected',
+      });
+    } else {
+      throw new Error(`Contact outbox replay failed: ${response.status}`);
+    }
+  }
+}
+
+// Background sync event - replay contact submissions made while offline
+self.addEventListener('sync', event => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(replayOutbox());
+  }
+});
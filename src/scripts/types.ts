@@ -17,6 +17,43 @@ export interface Language {
   code: string;
   name: string;
   flag: string;
+  // BCP 47 locale for the html lang attribute and hreflang tags, e.g. 'pt-PT'
+  locale: string;
+  // Path the language is served from, e.g. '/' or '/en/'
+  path: string;
+  // Code of the language to fall back to for missing keys, e.g. 'en' for 'en-GB'
+  fallback?: string;
+}
+
+export interface Theme {
+  id: string;
+  // English name, used until translations are loaded
+  name: string;
+  // Translation key of the theme's name, e.g. 'theme.names.dark'
+  labelKey: string;
+  // Native color scheme for form controls and scrollbars
+  colorScheme: 'light' | 'dark';
+  // theme-color meta value for the mobile browser UI
+  metaColor: string;
+  // CSS custom properties set on the root element on top of the stylesheet's tokens
+  tokens: Record<string, string>;
+  // Days of the year the theme is offered on, e.g. only during Christmas
+  season?: ThemeSeason;
+  // Whether the theme is offered on a given date, for rules a season cannot express
+  isAvailable?: (date: Date) => boolean;
+}
+
+export interface ThemeSeason {
+  // First and last day as [month, day] with January as 1; seasons may wrap around the new year
+  start: [number, number];
+  end: [number, number];
+}
+
+export interface LanguageRoute {
+  // Page path without the language prefix, e.g. '/' or '/privacy'
+  path: string;
+  // Whether the page is translated in place; other pages are separate files per language
+  inPage?: boolean;
 }
 
 export interface Route {
@@ -115,11 +152,14 @@ export interface ContactRequest {
   email: string;
   message: string;
   phone?: string;
+  topic?: string;
+  [field: string]: string | undefined;
 }
 
 export interface ContactResponse {
   success: boolean;
   data: { id: string };
   error?: string;
+  errors?: Record<string, string>;
   timestamp: string;
 }
@@ -3,13 +3,12 @@
  * Comprehensive input validation system for contact forms
  */
 
-const MIN_NAME_LENGTH = 2;
-const MAX_NAME_LENGTH = 100;
-const MAX_EMAIL_LENGTH = 254;
-const MIN_PHONE_LENGTH = 7;
-const MAX_PHONE_LENGTH = 20;
-const MIN_MESSAGE_LENGTH = 10;
-const MAX_MESSAGE_LENGTH = 2000;
+import {
+  ATTACHMENT_RULES,
+  CONTACT_FORM_SCHEMA,
+  ContactFieldSchema,
+  getFieldSchema,
+} from './contactFormSchema.js';
 
 const DOMPurify = (
   globalThis as unknown as {
@@ -17,39 +16,34 @@ const DOMPurify = (
   }
 ).DOMPurify;
 
-export const VALIDATION_MESSAGES = {
-  name: {
-    required: 'Nome é obrigatório',
-    tooShort: 'Nome deve ter pelo menos 2 caracteres',
-    tooLong: 'Nome deve ter menos de 100 caracteres',
-    invalidChars: 'Nome contém caracteres inválidos',
-  },
-  email: {
-    required: 'Email é obrigatório',
-    invalid: 'Por favor, insira um email válido',
-    tooLong: 'Endereço de email muito longo',
-  },
-  phone: {
-    invalid: 'Por favor, insira um número de telefone válido',
-    tooLong: 'Número de telefone muito longo',
-  },
-  message: {
-    required: 'Mensagem é obrigatória',
-    tooShort: 'Mensagem deve ter pelo menos 10 caracteres',
-    tooLong: 'Mensagem deve ter menos de 2000 caracteres',
-  },
+export type ValidationMessages = Record<string, Record<string, string>>;
+
+// Built-in (Portuguese) messages, generated from the form schema
+export const VALIDATION_MESSAGES: ValidationMessages = {
+  ...Object.fromEntries(CONTACT_FORM_SCHEMA.map(field => [field.name, { ...field.messages }])),
+  [ATTACHMENT_RULES.name]: { ...ATTACHMENT_RULES.messages },
 };
 
 export interface ContactRequest {
   name: string;
   email: string;
   phone?: string;
+  topic?: string;
   message: string;
+  [field: string]: string | undefined;
+}
+
+// The parts of a File the attachment rules look at, so the API can validate uploads too
+export interface AttachmentLike {
+  name: string;
+  type: string;
+  size: number;
 }
 
 export interface ValidationResult {
   isValid: boolean;
   error?: string;
+  errorKey?: string;
 }
 
 export interface FieldValidationResult extends ValidationResult {
@@ -62,161 +56,192 @@ export interface FormValidationResult {
   fieldResults: Record<string, FieldValidationResult>;
 }
 
-export function validateName(name: string): ValidationResult {
-  if (!name || name.trim().length === 0) {
-    return {
-      isValid: false,
-      error: VALIDATION_MESSAGES.name.required,
-    };
-  }
+/**
+ * Look up a message by its key, e.g. 'name.required'
+ */
+export function getValidationMessage(
+  key: string,
+  messages: ValidationMessages = VALIDATION_MESSAGES
+): string {
+  const [field, rule] = key.split('.');
+  return messages[field]?.[rule] || VALIDATION_MESSAGES[field]?.[rule] || key;
+}
 
-  const trimmedName = name.trim();
+/**
+ * Read a nested value such as 'contact.validation.name' from a locale object
+ */
+function getNestedValue(obj: Record<string, unknown> | undefined, path: string): unknown {
+  return path.split('.').reduce<unknown>((current, key) => {
+    return current && typeof current === 'object'
+      ? (current as Record<string, unknown>)[key]
+      : undefined;
+  }, obj);
+}
 
-  if (trimmedName.length < MIN_NAME_LENGTH) {
-    return {
-      isValid: false,
-      error: VALIDATION_MESSAGES.name.tooShort,
+/**
+ * Build validation messages from each field's locale section (see the schema translationKey),
+ * falling back to the built-in Portuguese messages for missing keys
+ */
+export function resolveValidationMessages(
+  translations?: Record<string, unknown>
+): ValidationMessages {
+  const resolved: ValidationMessages = {};
+
+  [...CONTACT_FORM_SCHEMA, ATTACHMENT_RULES].forEach(field => {
+    const localized = getNestedValue(translations, field.translationKey);
+    resolved[field.name] = {
+      ...field.messages,
+      ...(localized && typeof localized === 'object' ? (localized as Record<string, string>) : {}),
     };
-  }
+  });
 
-  if (trimmedName.length > MAX_NAME_LENGTH) {
-    return {
-      isValid: false,
-      error: VALIDATION_MESSAGES.name.tooLong,
-    };
-  }
+  return resolved;
+}
 
-  const nameRegex = /^[a-zA-Zà-žÀ-Ž\s\-']+$/u;
-  if (!nameRegex.test(trimmedName)) {
-    return {
-      isValid: false,
-      error: VALIDATION_MESSAGES.name.invalidChars,
-    };
+/**
+ * Create a failed validation result for a message key
+ */
+function invalid(key: string, messages: ValidationMessages): ValidationResult {
+  return {
+    isValid: false,
+    error: getValidationMessage(key, messages),
+    errorKey: key,
+  };
+}
+
+/**
+ * Validate a value against its field schema
+ * Rules run in order: required, tooShort, tooLong, options, pattern, minDigits
+ */
+export function validateFieldValue(
+  field: ContactFieldSchema,
+  value: string | undefined,
+  messages: ValidationMessages = VALIDATION_MESSAGES
+): ValidationResult {
+  if (!value || value.trim().length === 0) {
+    return field.required ? invalid(`${field.name}.required`, messages) : { isValid: true };
   }
 
-  return { isValid: true };
-}
+  const trimmed = value.trim();
 
-export function validateEmail(email: string): ValidationResult {
-  if (!email || email.trim().length === 0) {
-    return {
-      isValid: false,
-      error: VALIDATION_MESSAGES.email.required,
-    };
+  if (field.minLength !== undefined && trimmed.length < field.minLength) {
+    return invalid(`${field.name}.tooShort`, messages);
   }
 
-  const trimmedEmail = email.trim();
+  if (trimmed.length > field.maxLength) {
+    return invalid(`${field.name}.tooLong`, messages);
+  }
 
-  if (trimmedEmail.length > MAX_EMAIL_LENGTH) {
-    return {
-      isValid: false,
-      error: VALIDATION_MESSAGES.email.tooLong,
-    };
+  if (field.options && !field.options.some(option => option.value === trimmed)) {
+    return invalid(`${field.name}.invalid`, messages);
   }
 
-  const emailRegex =
-    /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+  if (field.pattern && !field.pattern.test(trimmed)) {
+    return invalid(`${field.name}.${field.patternRule || 'invalid'}`, messages);
+  }
 
-  if (!emailRegex.test(trimmedEmail)) {
-    return {
-      isValid: false,
-      error: VALIDATION_MESSAGES.email.invalid,
-    };
+  if (field.minDigits !== undefined) {
+    const digitsOnly = trimmed.replace(/[\s\-()+]/g, '');
+    if (digitsOnly.length < field.minDigits) {
+      return invalid(`${field.name}.invalid`, messages);
+    }
   }
 
   return { isValid: true };
 }
 
-export function validatePhone(phone: string): ValidationResult {
-  if (!phone || phone.trim().length === 0) {
-    return { isValid: true };
-  }
+/**
+ * Validate a single field by name
+ */
+export function validateNamedField(
+  fieldName: string,
+  value: string | undefined,
+  messages: ValidationMessages = VALIDATION_MESSAGES
+): ValidationResult {
+  const field = getFieldSchema(fieldName);
+  return field ? validateFieldValue(field, value, messages) : { isValid: true };
+}
 
-  const trimmedPhone = phone.trim();
+/**
+ * Validate attachments against ATTACHMENT_RULES
+ * Rules run in order: tooMany, invalidType, tooLarge, totalTooLarge
+ */
+export function validateAttachments(
+  files: ArrayLike<AttachmentLike>,
+  messages: ValidationMessages = VALIDATION_MESSAGES
+): ValidationResult {
+  const list = Array.from(files);
+  const key = (rule: string) => `${ATTACHMENT_RULES.name}.${rule}`;
 
-  if (trimmedPhone.length > MAX_PHONE_LENGTH) {
-    return {
-      isValid: false,
-      error: VALIDATION_MESSAGES.phone.tooLong,
-    };
+  if (list.length > ATTACHMENT_RULES.maxFiles) {
+    return invalid(key('tooMany'), messages);
   }
 
-  const phoneRegex = /^[+]?[\d\s\-()]+$/;
+  if (list.some(file => !ATTACHMENT_RULES.allowedTypes.includes(file.type))) {
+    return invalid(key('invalidType'), messages);
+  }
 
-  if (!phoneRegex.test(trimmedPhone)) {
-    return {
-      isValid: false,
-      error: VALIDATION_MESSAGES.phone.invalid,
-    };
+  if (list.some(file => file.size > ATTACHMENT_RULES.maxFileSize)) {
+    return invalid(key('tooLarge'), messages);
   }
 
-  const digitsOnly = trimmedPhone.replace(/[\s\-()+]/g, '');
-  if (digitsOnly.length < MIN_PHONE_LENGTH) {
-    return {
-      isValid: false,
-      error: VALIDATION_MESSAGES.phone.invalid,
-    };
+  const totalSize = list.reduce((total, file) => total + file.size, 0);
+  if (totalSize > ATTACHMENT_RULES.maxTotalSize) {
+    return invalid(key('totalTooLarge'), messages);
   }
 
   return { isValid: true };
 }
 
-export function validateMessage(message: string): ValidationResult {
-  if (!message || message.trim().length === 0) {
-    return {
-      isValid: false,
-      error: VALIDATION_MESSAGES.message.required,
-    };
-  }
-
-  const trimmedMessage = message.trim();
+export function validateName(
+  name: string,
+  messages: ValidationMessages = VALIDATION_MESSAGES
+): ValidationResult {
+  return validateNamedField('name', name, messages);
+}
 
-  if (trimmedMessage.length < MIN_MESSAGE_LENGTH) {
-    return {
-      isValid: false,
-      error: VALIDATION_MESSAGES.message.tooShort,
-    };
-  }
+export function validateEmail(
+  email: string,
+  messages: ValidationMessages = VALIDATION_MESSAGES
+): ValidationResult {
+  return validateNamedField('email', email, messages);
+}
 
-  if (trimmedMessage.length > MAX_MESSAGE_LENGTH) {
-    return {
-      isValid: false,
-      error: VALIDATION_MESSAGES.message.tooLong,
-    };
-  }
+export function validatePhone(
+  phone: string,
+  messages: ValidationMessages = VALIDATION_MESSAGES
+): ValidationResult {
+  return validateNamedField('phone', phone, messages);
+}
 
-  return { isValid: true };
+export function validateMessage(
+  message: string,
+  messages: ValidationMessages = VALIDATION_MESSAGES
+): ValidationResult {
+  return validateNamedField('message', message, messages);
 }
 
-export function validateContactForm(formData: ContactRequest): FormValidationResult {
+export function validateContactForm(
+  formData: ContactRequest,
+  messages: ValidationMessages = VALIDATION_MESSAGES
+): FormValidationResult {
   const fieldResults: Record<string, FieldValidationResult> = {};
   const errors: Record<string, string> = {};
 
-  const nameResult = validateName(formData.name);
-  fieldResults.name = { ...nameResult, field: 'name' };
-  if (!nameResult.isValid && nameResult.error) {
-    errors.name = nameResult.error;
-  }
-
-  const emailResult = validateEmail(formData.email);
-  fieldResults.email = { ...emailResult, field: 'email' };
-  if (!emailResult.isValid && emailResult.error) {
-    errors.email = emailResult.error;
-  }
+  CONTACT_FORM_SCHEMA.forEach(field => {
+    const value = formData[field.name];
 
-  if (formData.phone !== undefined) {
-    const phoneResult = validatePhone(formData.phone);
-    fieldResults.phone = { ...phoneResult, field: 'phone' };
-    if (!phoneResult.isValid && phoneResult.error) {
-      errors.phone = phoneResult.error;
+    // Optional fields are only validated when present
+    if (!field.required && value === undefined) {
+      return;
     }
-  }
 
-  const messageResult = validateMessage(formData.message);
-  fieldResults.message = { ...messageResult, field: 'message' };
-  if (!messageResult.isValid && messageResult.error) {
-    errors.message = messageResult.error;
-  }
+    const result = validateFieldValue(field, value, messages);
+    fieldResults[field.name] = { ...result, field: field.name };
+    if (!result.isValid && result.error) {
+      errors[field.name] = result.error;
+    }
+  });
 
   const isValid = Object.keys(errors).length === 0;
 
@@ -227,6 +252,28 @@ export function validateContactForm(formData: ContactRequest): FormValidationRes
   };
 }
 
+/**
+ * Sanitize and truncate contact data according to the schema
+ * Empty optional fields are dropped
+ */
+export function sanitizeContactData(
+  data: ContactRequest,
+  sanitize: (input: string) => string = input => input
+): ContactRequest {
+  const sanitized: Record<string, string | undefined> = {};
+
+  CONTACT_FORM_SCHEMA.forEach(field => {
+    const value = data[field.name];
+    if (!value) {
+      sanitized[field.name] = field.required ? '' : undefined;
+      return;
+    }
+    sanitized[field.name] = (sanitize(value) || '').substring(0, field.maxLength);
+  });
+
+  return sanitized as ContactRequest;
+}
+
 export class FormErrorDisplay {
   private formElement: HTMLElement | null = null;
   private errorContainer: HTMLElement | null = null;
@@ -260,15 +307,18 @@ export class FormErrorDisplay {
     this.formElement.insertBefore(this.errorContainer, this.formElement.firstChild);
   }
 
-  public displayErrors(errors: Record<string, string>): void {
+  public displayErrors(
+    errors: Record<string, string>,
+    errorKeys: Record<string, string> = {}
+  ): void {
     if (!this.errorContainer) {
       return;
     }
 
     this.clearErrors();
 
-    const errorMessages = Object.values(errors);
-    if (errorMessages.length === 0) {
+    const errorEntries = Object.entries(errors);
+    if (errorEntries.length === 0) {
       this.errorContainer.style.display = 'none';
       return;
     }
@@ -276,9 +326,12 @@ export class FormErrorDisplay {
     const errorList = document.createElement('ul');
     errorList.style.cssText = 'margin: 0; padding-left: 20px;';
 
-    errorMessages.forEach(error => {
+    errorEntries.forEach(([fieldName, error]) => {
       const listItem = document.createElement('li');
       listItem.textContent = error;
+      if (errorKeys[fieldName]) {
+        listItem.dataset.errorKey = errorKeys[fieldName];
+      }
       errorList.appendChild(listItem);
     });
 
@@ -293,12 +346,12 @@ export class FormErrorDisplay {
 
     Object.entries(fieldResults).forEach(([fieldName, result]) => {
       if (!result.isValid && result.error) {
-        this.displayFieldError(fieldName, result.error);
+        this.displayFieldError(fieldName, result.error, result.errorKey);
       }
     });
   }
 
-  public displayFieldError(fieldName: string, errorMessage: string): void {
+  public displayFieldError(fieldName: string, errorMessage: string, errorKey?: string): void {
     const fieldElement = this.formElement?.querySelector(`[name="${fieldName}"]`) as HTMLElement;
     if (!fieldElement) {
       return;
@@ -307,6 +360,9 @@ export class FormErrorDisplay {
     const errorElement = document.createElement('div');
     errorElement.className = 'field-error';
     errorElement.textContent = errorMessage;
+    if (errorKey) {
+      errorElement.dataset.errorKey = errorKey;
+    }
     errorElement.setAttribute('role', 'alert');
     errorElement.style.cssText = `
       color: #c33;
@@ -364,6 +420,7 @@ export class FormErrorDisplay {
 export class ContactFormValidator {
   private errorDisplay: FormErrorDisplay;
   private formElement: HTMLFormElement | null = null;
+  private messages: ValidationMessages = VALIDATION_MESSAGES;
 
   constructor(formSelector: string) {
     this.errorDisplay = new FormErrorDisplay(formSelector);
@@ -371,14 +428,19 @@ export class ContactFormValidator {
     this.setupFormValidation();
   }
 
+  /**
+   * Use localized validation messages
+   */
+  public setMessages(messages: ValidationMessages): void {
+    this.messages = messages;
+  }
+
   private setupFormValidation(): void {
     if (!this.formElement) {
       return;
     }
 
-    const fields = ['name', 'email', 'phone', 'message'];
-
-    fields.forEach(fieldName => {
+    CONTACT_FORM_SCHEMA.forEach(({ name: fieldName }) => {
       const field = this.formElement?.querySelector(`[name="${fieldName}"]`) as HTMLInputElement;
       if (field) {
         field.addEventListener('blur', () => this.validateField(fieldName));
@@ -393,27 +455,10 @@ export class ContactFormValidator {
       return;
     }
 
-    let result: ValidationResult;
-
-    switch (fieldName) {
-      case 'name':
-        result = validateName(field.value);
-        break;
-      case 'email':
-        result = validateEmail(field.value);
-        break;
-      case 'phone':
-        result = validatePhone(field.value);
-        break;
-      case 'message':
-        result = validateMessage(field.value);
-        break;
-      default:
-        return;
-    }
+    const result = validateNamedField(fieldName, field.value, this.messages);
 
     if (!result.isValid && result.error) {
-      this.errorDisplay.displayFieldError(fieldName, result.error);
+      this.errorDisplay.displayFieldError(fieldName, result.error, result.errorKey);
     }
   }
 
@@ -437,25 +482,18 @@ export class ContactFormValidator {
       };
     }
 
-    const formData: ContactRequest = {
-      name: DOMPurify.sanitize(
-        (this.formElement.querySelector('[name="name"]') as HTMLInputElement)?.value || ''
-      ),
-      email: DOMPurify.sanitize(
-        (this.formElement.querySelector('[name="email"]') as HTMLInputElement)?.value || ''
-      ),
-      phone: DOMPurify.sanitize(
-        (this.formElement.querySelector('[name="phone"]') as HTMLInputElement)?.value || ''
-      ),
-      message: DOMPurify.sanitize(
-        (this.formElement.querySelector('[name="message"]') as HTMLTextAreaElement)?.value || ''
-      ),
-    };
+    const formData = this.readFormValues(false);
 
-    const result = validateContactForm(formData);
+    const result = validateContactForm(formData, this.messages);
 
     if (!result.isValid) {
-      this.errorDisplay.displayErrors(result.errors);
+      const errorKeys: Record<string, string> = {};
+      Object.entries(result.fieldResults).forEach(([fieldName, fieldResult]) => {
+        if (fieldResult.errorKey) {
+          errorKeys[fieldName] = fieldResult.errorKey;
+        }
+      });
+      this.errorDisplay.displayErrors(result.errors, errorKeys);
       this.errorDisplay.displayFieldErrors(result.fieldResults);
     } else {
       this.errorDisplay.clearErrors();
@@ -469,21 +507,22 @@ export class ContactFormValidator {
       return null;
     }
 
-    return {
-      name: DOMPurify.sanitize(
-        (this.formElement.querySelector('[name="name"]') as HTMLInputElement)?.value.trim() || ''
-      ),
-      email: DOMPurify.sanitize(
-        (this.formElement.querySelector('[name="email"]') as HTMLInputElement)?.value.trim() || ''
-      ),
-      phone: DOMPurify.sanitize(
-        (this.formElement.querySelector('[name="phone"]') as HTMLInputElement)?.value.trim() || ''
-      ),
-      message: DOMPurify.sanitize(
-        (this.formElement.querySelector('[name="message"]') as HTMLTextAreaElement)?.value.trim() ||
-          ''
-      ),
-    };
+    return this.readFormValues(true);
+  }
+
+  /**
+   * Read and sanitize the values of all schema fields
+   */
+  private readFormValues(trim: boolean): ContactRequest {
+    const data: Record<string, string> = {};
+
+    CONTACT_FORM_SCHEMA.forEach(({ name }) => {
+      const field = this.formElement?.querySelector(`[name="${name}"]`) as HTMLInputElement;
+      const value = field?.value || '';
+      data[name] = DOMPurify.sanitize(trim ? value.trim() : value);
+    });
+
+    return data as ContactRequest;
   }
 
   public displaySuccess(message: string): void {
@@ -4,7 +4,7 @@
  */
 
 export interface ErrorReport {
-  type: 'javascript' | 'performance' | 'network' | 'user';
+  type: 'javascript' | 'performance' | 'network' | 'user' | 'translation';
   message: string;
   source?: string;
   line?: number;
@@ -69,6 +69,7 @@ export class ErrorTracker {
     this.setupGlobalErrorHandlers();
     this.setupNetworkErrorTracking();
     this.setupPerformanceErrorTracking();
+    this.setupTranslationErrorTracking();
 
     console.log('Error tracking initialized with session:', this.sessionId);
   }
@@ -180,6 +181,24 @@ export class ErrorTracker {
     }
   }
 
+  /**
+   * Setup missing translation tracking
+   */
+  private setupTranslationErrorTracking(): void {
+    // TranslationManager reports each missing key once per language
+    window.addEventListener('translationMissing', event => {
+      const { language, keys } = (event as CustomEvent<{ language: string; keys: string[] }>)
+        .detail;
+
+      this.reportError({
+        type: 'translation',
+        message: `Missing ${language} translations: ${keys.join(', ')}`,
+        context: { language, keys },
+        severity: 'low',
+      });
+    });
+  }
+
   /**
    * Assess error severity
    */